@@ -1,4 +1,10 @@
 import { config as loadEnv } from "dotenv";
+import {
+  createSkipPolicyConfig,
+  parseCategoryValues,
+  parseSkipPolicyMode,
+  type SkipPolicyConfig,
+} from "./skip-policy.js";
 
 loadEnv();
 
@@ -20,10 +26,17 @@ export interface Config {
   delayMs: number;
   maxUsdcSpend: number;
   mockFailureRate: number;
+  mockZauthPriceUsdc: number;  // Price charged per mock Zauth check
+  mockZauth: MockZauthBehavior;  // How far the mock Zauth's uptime falls short of the truth
+  mockEndpoints?: Endpoint[];    // The mock market's endpoints (default: MOCK_ENDPOINTS)
 
   // Zauth
   zauthDirectoryUrl: string;
   zauthCheckUrl: string;
+  zauthCacheTtl: number;    // ms; 0 disables caching of Zauth checks
+  zauthStaleTtl: number;    // ms an expired check may still be served while it revalidates
+  reputationFile?: string;  // with-local-history store (default: results/reputation.json in real mode, none in mock)
+  skipPolicy: SkipPolicyConfig;  // When a Zauth-checked endpoint is skipped, per data category
 
   // Bazaar
   bazaarUrl: string;
@@ -34,6 +47,51 @@ export interface Config {
   verbose: boolean;
 }
 
+// Imperfections of the mock Zauth oracle. The defaults report each endpoint's
+// true current uptime, except that 10% of checks are stale and trail it by 3 cycles.
+export interface MockZauthBehavior {
+  lagCycles: number;         // Uptime reflects the endpoint as of this many cycles ago
+  windowCycles: number;      // Uptime averages this many cycles of history (1 = latest only)
+  noiseStdDev: number;       // Gaussian noise on the reported uptime (0-1 scale)
+  staleProbability: number;  // Chance a check is served stale
+  staleAgeCycles: number;    // Extra lag of a stale check's uptime
+  coverage: number;          // Chance Zauth has any data for an endpoint in a trial
+}
+
+export const DEFAULT_MOCK_ZAUTH_BEHAVIOR: MockZauthBehavior = {
+  lagCycles: 0,
+  windowCycles: 1,
+  noiseStdDev: 0,
+  staleProbability: 0.1,
+  staleAgeCycles: 3,
+  coverage: 1,
+};
+
+/**
+ * Whether the mock Zauth reports each endpoint's true current uptime: the
+ * upper bound on what a real oracle can know.
+ */
+export function isPerfectMockZauth(behavior: MockZauthBehavior): boolean {
+  return (
+    behavior.lagCycles === 0 &&
+    behavior.windowCycles === 1 &&
+    behavior.noiseStdDev === 0 &&
+    (behavior.staleProbability === 0 || behavior.staleAgeCycles === 0) &&
+    behavior.coverage === 1
+  );
+}
+
+export const DEFAULT_MOCK_FAILURE_RATE = 0.3;
+
+// Latency of a mock endpoint's response
+export type LatencyDistribution =
+  | { kind: "uniform"; minMs: number; maxMs: number }
+  | { kind: "exponential"; minMs: number; meanMs: number }  // minMs plus an exponential tail
+  | { kind: "lognormal"; medianMs: number; sigma: number };
+
+// Which mock response body an endpoint returns on success
+export type MockPayload = "pool" | "whale" | "sentiment" | "empty";
+
 export interface Endpoint {
   url: string;
   name: string;
@@ -43,6 +101,8 @@ export interface Endpoint {
   // For mock endpoints
   mockFailureRate?: number;
   mockLatencyMs?: number;
+  mockLatency?: LatencyDistribution;  // Default: uniform from mockLatencyMs to mockLatencyMs + 100
+  mockPayload?: MockPayload;          // Default: inferred from the URL
 }
 
 export interface IterationResult {
@@ -127,12 +187,95 @@ function parseArgs(): Partial<Config> {
       args.bazaarUrl = arg.split("=")[1];
     } else if (arg.startsWith("--bazaar-ttl=")) {
       args.bazaarCacheTtl = parseInt(arg.split("=")[1], 10) * 1000; // Convert seconds to ms
+    } else if (arg.startsWith("--zauth-cache-ttl=")) {
+      args.zauthCacheTtl = parseFloat(arg.split("=")[1]) * 1000; // Convert seconds to ms
+    } else if (arg.startsWith("--zauth-stale-ttl=")) {
+      args.zauthStaleTtl = parseFloat(arg.split("=")[1]) * 1000; // Convert seconds to ms
+    } else if (arg.startsWith("--reputation-file=")) {
+      args.reputationFile = arg.split("=")[1];
     }
   }
 
   return args;
 }
 
+/**
+ * Skip policy from --skip-policy / --min-uptime / --data-value, falling back to
+ * SKIP_POLICY / SKIP_MIN_UPTIME / SKIP_DATA_VALUE. Per-category values use the
+ * form "pool:0.1,whale:0.08,sentiment:0.06".
+ */
+export function loadSkipPolicyConfig(): SkipPolicyConfig {
+  const argv = process.argv.slice(2);
+  const flag = (name: string) => argv.find((a) => a.startsWith(`--${name}=`))?.split("=")[1];
+
+  const mode = flag("skip-policy") ?? process.env.SKIP_POLICY;
+  const minUptime = flag("min-uptime") ?? process.env.SKIP_MIN_UPTIME;
+  const dataValue = flag("data-value") ?? process.env.SKIP_DATA_VALUE;
+
+  return createSkipPolicyConfig({
+    mode: parseSkipPolicyMode(mode),
+    minUptime: minUptime ? parseCategoryValues(minUptime) : undefined,
+    missingDataValueUsdc: dataValue ? parseCategoryValues(dataValue) : undefined,
+  });
+}
+
+/**
+ * Mock Zauth behaviour from --zauth-lag / --zauth-window / --zauth-noise /
+ * --zauth-staleness / --zauth-stale-age / --zauth-coverage, falling back to
+ * MOCK_ZAUTH_LAG / _WINDOW / _NOISE / _STALENESS / _STALE_AGE / _COVERAGE,
+ * then to `defaults` (e.g. a scenario's `zauth` section).
+ */
+export function loadMockZauthBehavior(
+  defaults: MockZauthBehavior = DEFAULT_MOCK_ZAUTH_BEHAVIOR
+): MockZauthBehavior {
+  const argv = process.argv.slice(2);
+  const value = (flag: string, env: string, fallback: number): number => {
+    const raw = argv.find((a) => a.startsWith(`--${flag}=`))?.split("=")[1] ?? process.env[env];
+    return raw === undefined ? fallback : parseFloat(raw);
+  };
+
+  const behavior: MockZauthBehavior = {
+    lagCycles: value("zauth-lag", "MOCK_ZAUTH_LAG", defaults.lagCycles),
+    windowCycles: value("zauth-window", "MOCK_ZAUTH_WINDOW", defaults.windowCycles),
+    noiseStdDev: value("zauth-noise", "MOCK_ZAUTH_NOISE", defaults.noiseStdDev),
+    staleProbability: value("zauth-staleness", "MOCK_ZAUTH_STALENESS", defaults.staleProbability),
+    staleAgeCycles: value("zauth-stale-age", "MOCK_ZAUTH_STALE_AGE", defaults.staleAgeCycles),
+    coverage: value("zauth-coverage", "MOCK_ZAUTH_COVERAGE", defaults.coverage),
+  };
+
+  const isCount = (n: number) => Number.isInteger(n) && n >= 0;
+  if (!isCount(behavior.lagCycles) || !isCount(behavior.staleAgeCycles)) {
+    throw new Error("--zauth-lag and --zauth-stale-age must be whole numbers of cycles");
+  }
+  if (!isCount(behavior.windowCycles) || behavior.windowCycles < 1) {
+    throw new Error("--zauth-window must be a whole number of cycles, at least 1");
+  }
+  if (!(behavior.noiseStdDev >= 0)) {
+    throw new Error("--zauth-noise must not be negative");
+  }
+  if (!(behavior.staleProbability >= 0 && behavior.staleProbability <= 1) || !(behavior.coverage >= 0 && behavior.coverage <= 1)) {
+    throw new Error("--zauth-staleness and --zauth-coverage must be between 0 and 1");
+  }
+  return behavior;
+}
+
+/**
+ * CLI flags that recreate the non-default fields of a mock Zauth behaviour.
+ */
+export function mockZauthFlags(behavior: MockZauthBehavior): string[] {
+  const flags: [keyof MockZauthBehavior, string][] = [
+    ["lagCycles", "zauth-lag"],
+    ["windowCycles", "zauth-window"],
+    ["noiseStdDev", "zauth-noise"],
+    ["staleProbability", "zauth-staleness"],
+    ["staleAgeCycles", "zauth-stale-age"],
+    ["coverage", "zauth-coverage"],
+  ];
+  return flags
+    .filter(([field]) => behavior[field] !== DEFAULT_MOCK_ZAUTH_BEHAVIOR[field])
+    .map(([field, flag]) => `--${flag}=${behavior[field]}`);
+}
+
 export function loadConfig(): Config {
   const envConfig: Config = {
     evmPrivateKey: process.env.EVM_PRIVATE_KEY || "",
@@ -144,13 +287,18 @@ export function loadConfig(): Config {
     iterations: parseInt(process.env.ITERATIONS || "100", 10),
     delayMs: parseInt(process.env.DELAY_MS || "5000", 10),
     maxUsdcSpend: parseFloat(process.env.MAX_USDC_SPEND || "1.00"),
-    mockFailureRate: parseFloat(process.env.MOCK_FAILURE_RATE || "0.30"),
+    mockFailureRate: parseFloat(process.env.MOCK_FAILURE_RATE || String(DEFAULT_MOCK_FAILURE_RATE)),
+    mockZauthPriceUsdc: parseFloat(process.env.MOCK_ZAUTH_PRICE || "0.001"),
     zauthDirectoryUrl:
       process.env.ZAUTH_DIRECTORY_URL ||
       "https://back.zauthx402.com/api/verification/directory",
     zauthCheckUrl:
       process.env.ZAUTH_CHECK_URL ||
       "https://back.zauthx402.com/api/verification/check",
+    zauthCacheTtl: parseFloat(process.env.ZAUTH_CACHE_TTL || "0") * 1000, // Convert to ms
+    zauthStaleTtl: parseFloat(process.env.ZAUTH_STALE_TTL || "0") * 1000, // Convert to ms
+    skipPolicy: loadSkipPolicyConfig(),
+    mockZauth: loadMockZauthBehavior(),
     bazaarUrl:
       process.env.BAZAAR_URL ||
       "https://api.cdp.coinbase.com/platform/v2/x402",
@@ -197,6 +345,10 @@ export function validateConfig(config: Config, network: Network = "base"): void
   if (config.mockFailureRate < 0 || config.mockFailureRate > 1) {
     throw new Error("Mock failure rate must be between 0 and 1");
   }
+
+  if (config.mockZauthPriceUsdc < 0) {
+    throw new Error("Mock Zauth price must not be negative");
+  }
 }
 
 /**
@@ -1,4 +1,4 @@
-import type { Endpoint } from "./config.js";
+import type { Endpoint, MockPayload } from "./config.js";
 
 // Mock endpoints simulating real DeFi data providers with varying reliability
 export const MOCK_ENDPOINTS: Endpoint[] = [
@@ -73,12 +73,12 @@ export interface MockSentimentData {
   sources: string[]; // Data source names
 }
 
-export function generateMockPoolData(): MockPoolData[] {
+export function generateMockPoolData(random: () => number = Math.random): MockPoolData[] {
   const pools = ["SOL-USDC", "RAY-SOL", "ORCA-USDC", "JTO-SOL", "BONK-SOL"];
   return pools.map((pool, i) => {
     const [tokenA, tokenB] = pool.split("-");
-    const tvl = Math.random() * 99_000_000 + 1_000_000; // 1M-100M range
-    const apy = Math.random() * 45 + 5; // 5-50% range
+    const tvl = random() * 99_000_000 + 1_000_000; // 1M-100M range
+    const apy = random() * 45 + 5; // 5-50% range
 
     // Assess impermanent loss risk
     const stablecoins = ["USDC", "USDT", "DAI"];
@@ -107,34 +107,34 @@ export function generateMockPoolData(): MockPoolData[] {
       tokenB,
       tvl,
       apy,
-      volume24h: Math.random() * 5_000_000 + 50_000,
+      volume24h: random() * 5_000_000 + 50_000,
       feeRate,
       impermanentLossRisk,
     };
   });
 }
 
-export function generateMockWhaleData(): MockWhaleData[] {
+export function generateMockWhaleData(random: () => number = Math.random): MockWhaleData[] {
   const actions: Array<"buy" | "sell" | "transfer"> = ["buy", "sell", "transfer"];
   const tokens = ["SOL", "JTO", "BONK", "WIF", "PYTH"];
   return Array.from({ length: 5 }, (_, i) => {
-    const amount = Math.random() * 1_000_000 + 10_000;
+    const amount = random() * 1_000_000 + 10_000;
     // Calculate significance (0-1 based on amount)
     const maxWhaleAmount = 10_000_000;
     const significance = Math.min(amount / maxWhaleAmount, 1);
 
     return {
-      address: `${Math.random().toString(36).substring(2, 8)}...${Math.random().toString(36).substring(2, 6)}`, // Truncated address format
-      action: actions[Math.floor(Math.random() * 3)],
+      address: `${random().toString(36).substring(2, 8)}...${random().toString(36).substring(2, 6)}`, // Truncated address format
+      action: actions[Math.floor(random() * 3)],
       token: tokens[i],
       amount,
-      timestamp: Date.now() - Math.random() * 3_600_000,
+      timestamp: Date.now() - random() * 3_600_000,
       significance,
     };
   });
 }
 
-export function generateMockSentimentData(): MockSentimentData[] {
+export function generateMockSentimentData(random: () => number = Math.random): MockSentimentData[] {
   const tokens = ["SOL", "JTO", "BONK", "WIF", "PYTH"];
   const sentiments: Array<"bullish" | "bearish" | "neutral"> = [
     "bullish",
@@ -151,30 +151,69 @@ export function generateMockSentimentData(): MockSentimentData[] {
 
   return tokens.map((token, i) => ({
     token,
-    sentiment: sentiments[Math.floor(Math.random() * 3)],
-    score: Math.random() * 2 - 1, // -1 to 1
-    confidence: Math.random() * 0.5 + 0.5, // 0.5 to 1
+    sentiment: sentiments[Math.floor(random() * 3)],
+    score: random() * 2 - 1, // -1 to 1
+    confidence: random() * 0.5 + 0.5, // 0.5 to 1
     sources: sources[i] || ["Unknown"],
   }));
 }
 
-export function generateMockResponse(endpoint: Endpoint): unknown {
+export function generateMockResponse(endpoint: Endpoint, random: () => number = Math.random): unknown {
+  if (endpoint.mockPayload) {
+    return generateMockPayload(endpoint.mockPayload, random);
+  }
   if (endpoint.url.includes("pools") || endpoint.url.includes("whirlpools")) {
-    return { success: true, data: generateMockPoolData() };
+    return { success: true, data: generateMockPoolData(random) };
   }
   if (endpoint.url.includes("vaults")) {
-    return { success: true, data: generateMockPoolData() };
+    return { success: true, data: generateMockPoolData(random) };
   }
   if (endpoint.url.includes("whale")) {
-    return { success: true, data: generateMockWhaleData() };
+    return { success: true, data: generateMockWhaleData(random) };
   }
   if (endpoint.url.includes("sentiment")) {
-    return { success: true, data: generateMockSentimentData() };
+    return { success: true, data: generateMockSentimentData(random) };
   }
   return { success: true, data: [] };
 }
 
-export function generateMockErrorResponse(): unknown {
+export function generateMockPayload(payload: MockPayload, random: () => number = Math.random): unknown {
+  switch (payload) {
+    case "pool":
+      return { success: true, data: generateMockPoolData(random) };
+    case "whale":
+      return { success: true, data: generateMockWhaleData(random) };
+    case "sentiment":
+      return { success: true, data: generateMockSentimentData(random) };
+    case "empty":
+      return { success: true, data: [] }; // Paid for, but nothing usable
+  }
+}
+
+/**
+ * Response time of one call to a mock endpoint. A lognormal always takes two
+ * draws (Box-Muller), the other distributions one.
+ */
+export function sampleMockLatencyMs(endpoint: Endpoint, random: () => number = Math.random): number {
+  const latency = endpoint.mockLatency;
+  if (!latency) {
+    return (endpoint.mockLatencyMs || 200) + random() * 100;
+  }
+  switch (latency.kind) {
+    case "uniform":
+      return latency.minMs + random() * (latency.maxMs - latency.minMs);
+    case "exponential":
+      return latency.minMs - (latency.meanMs - latency.minMs) * Math.log(1 - random());
+    case "lognormal": {
+      const u1 = random();
+      const u2 = random();
+      const z = Math.sqrt(-2 * Math.log(1 - u1)) * Math.cos(2 * Math.PI * u2);
+      return latency.medianMs * Math.exp(latency.sigma * z);
+    }
+  }
+}
+
+export function generateMockErrorResponse(random: () => number = Math.random): unknown {
   const errors = [
     { success: false, error: "Rate limit exceeded" },
     { success: false, error: "Internal server error" },
@@ -183,7 +222,7 @@ export function generateMockErrorResponse(): unknown {
     { success: false, data: null }, // Empty response
     {}, // Malformed response
   ];
-  return errors[Math.floor(Math.random() * errors.length)];
+  return errors[Math.floor(random() * errors.length)];
 }
 
 export function isValidResponse(response: unknown): boolean {
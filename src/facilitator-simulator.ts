@@ -0,0 +1,377 @@
+/**
+ * Local Facilitator Simulator
+ *
+ * Reproduces the settle-timeout race documented in 402-payment-timeout-analysis.md:
+ * the facilitator broadcasts the transfer, waits for confirmation, and gives up
+ * after its deadline with `settle_exact_node_failure` even though the transfer
+ * still confirms on-chain.
+ *
+ * Exposes the facilitator routes used by resource servers:
+ * - POST /verify  { paymentPayload, paymentRequirements } → { isValid, invalidReason?, payer }
+ * - POST /settle  { paymentPayload, paymentRequirements } → { success, errorReason?, transaction, network, payer }
+ *
+ * It also serves a minimal EVM JSON-RPC stand-in at POST /rpc (eth_blockNumber,
+ * eth_getBlockByNumber, eth_getTransactionReceipt, eth_getLogs) where every
+ * confirmed settlement is a USDC Transfer log in its own block, mined when the
+ * settlement was recorded, so reconciliation can run offline.
+ *
+ * Every settle attempt is recorded in `settlements` so callers can check whether
+ * a payment actually moved funds, independent of what the client reported.
+ */
+
+import * as http from "http";
+import type { AddressInfo } from "net";
+
+export interface FacilitatorSimulatorOptions {
+  port?: number;                  // 0 = pick a free port (default)
+  host?: string;                  // Default: 127.0.0.1
+  confirmationDelayMs?: number;   // Simulated time for the transfer to confirm (default: 2000)
+  settleDeadlineMs?: number;      // Facilitator gives up after this long (default: 10000)
+  verbose?: boolean;
+}
+
+export type SettlementOutcome =
+  | "settled"    // Confirmed before the deadline, success returned
+  | "timeout"    // Deadline exceeded; transfer still confirms on-chain
+  | "rejected";  // Payload failed verification; nothing broadcast
+
+export interface SimulatedSettlement {
+  timestamp: string;
+  resource?: string;
+  payer?: string;
+  payTo?: string;
+  amount?: string;            // Atomic units from the signed authorization
+  asset?: string;             // Token contract from the requirements
+  network?: string;
+  transaction: string | null; // null when nothing was broadcast
+  outcome: SettlementOutcome;
+  confirmedOnChain: boolean;  // Whether funds moved, regardless of the facilitator response
+  blockNumber?: number;       // Simulated block of the transfer (confirmed settlements only)
+  blockTime?: number;         // Unix seconds that block was mined
+  errorReason?: string;
+}
+
+export interface FacilitatorSimulator {
+  url: string;
+  settlements: SimulatedSettlement[];
+  close(): Promise<void>;
+}
+
+const DEADLINE_ERROR_MESSAGE = "transaction did not confirm in time: context deadline exceeded";
+
+// keccak256("Transfer(address,address,uint256)")
+export const TRANSFER_EVENT_TOPIC = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+/**
+ * Check an exact-scheme payment payload against the requirements it claims to satisfy.
+ * Signatures are not verified cryptographically; only the authorization fields are compared.
+ */
+export function verifyPaymentPayload(
+  paymentPayload: unknown,
+  paymentRequirements: unknown
+): { isValid: boolean; invalidReason?: string; payer?: string } {
+  const payload = asRecord(asRecord(paymentPayload)?.payload);
+  const authorization = asRecord(payload?.authorization);
+  const requirements = asRecord(paymentRequirements);
+  const payer = typeof authorization?.from === "string" ? authorization.from : undefined;
+
+  if (!authorization || !payload?.signature) {
+    return { isValid: false, invalidReason: "invalid_payload", payer };
+  }
+  if (!requirements) {
+    return { isValid: false, invalidReason: "missing_requirements", payer };
+  }
+  if (String(authorization.to).toLowerCase() !== String(requirements.payTo).toLowerCase()) {
+    return { isValid: false, invalidReason: "invalid_exact_evm_payload_recipient_mismatch", payer };
+  }
+  try {
+    if (toBigInt(authorization.value) < toBigInt(requirements.amount)) {
+      return { isValid: false, invalidReason: "invalid_exact_evm_payload_authorization_value", payer };
+    }
+  } catch {
+    return { isValid: false, invalidReason: "invalid_payload", payer };
+  }
+  if (Number(authorization.validBefore) < Math.floor(Date.now() / 1000)) {
+    return { isValid: false, invalidReason: "invalid_exact_evm_payload_authorization_valid_before", payer };
+  }
+
+  return { isValid: true, payer };
+}
+
+/**
+ * Start the facilitator simulator. Resolves once it is listening.
+ */
+export async function startFacilitatorSimulator(
+  options: FacilitatorSimulatorOptions = {}
+): Promise<FacilitatorSimulator> {
+  const host = options.host ?? "127.0.0.1";
+  const confirmationDelayMs = options.confirmationDelayMs ?? 2000;
+  const settleDeadlineMs = options.settleDeadlineMs ?? 10000;
+  const settlements: SimulatedSettlement[] = [];
+  const genesisTime = unixSeconds();
+  let txCounter = 0;
+
+  const server = http.createServer(async (req, res) => {
+    const path = (req.url ?? "/").split("?")[0];
+
+    if (req.method === "POST" && path === "/rpc") {
+      let rpcRequest: unknown;
+      try {
+        rpcRequest = JSON.parse(await readBody(req));
+      } catch {
+        sendJson(res, 200, { jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } });
+        return;
+      }
+      let rpcResponse: unknown;
+      try {
+        rpcResponse = handleRpc(settlements, genesisTime, rpcRequest);
+      } catch (error) {
+        // Malformed block tags or amounts: answer like a node would instead of dropping the request
+        rpcResponse = {
+          jsonrpc: "2.0",
+          id: asRecord(rpcRequest)?.id ?? null,
+          error: { code: -32602, message: `Invalid params: ${error instanceof Error ? error.message : String(error)}` },
+        };
+      }
+      sendJson(res, 200, rpcResponse);
+      return;
+    }
+
+    if (req.method !== "POST" || (path !== "/verify" && path !== "/settle")) {
+      sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch {
+      sendJson(res, 400, { error: "Invalid JSON body" });
+      return;
+    }
+
+    const { paymentPayload, paymentRequirements } = asRecord(body) ?? {};
+    const verification = verifyPaymentPayload(paymentPayload, paymentRequirements);
+
+    if (path === "/verify") {
+      sendJson(res, 200, verification);
+      return;
+    }
+
+    // /settle
+    const payload = asRecord(paymentPayload);
+    const authorization = asRecord(asRecord(payload?.payload)?.authorization);
+    const requirements = asRecord(paymentRequirements);
+    const network = optionalString(requirements?.network);
+    const base = {
+      timestamp: new Date().toISOString(),
+      resource: optionalString(asRecord(payload?.resource)?.url),
+      payer: verification.payer,
+      payTo: optionalString(authorization?.to),
+      amount: authorization?.value === undefined ? undefined : String(authorization.value),
+      asset: optionalString(requirements?.asset),
+      network,
+    };
+
+    if (!verification.isValid) {
+      record({ ...base, transaction: null, outcome: "rejected", confirmedOnChain: false, errorReason: verification.invalidReason });
+      sendJson(res, 400, {
+        success: false,
+        errorReason: verification.invalidReason,
+        payer: verification.payer,
+        transaction: "",
+        network,
+      });
+      return;
+    }
+
+    // Broadcast: the transaction hash exists from here on, whatever the response says
+    const transaction = `0x${(++txCounter).toString(16).padStart(64, "f")}`;
+
+    if (confirmationDelayMs > settleDeadlineMs) {
+      await delay(settleDeadlineMs);
+      record({ ...base, transaction, outcome: "timeout", confirmedOnChain: true, errorReason: "settle_exact_node_failure" });
+      sendJson(res, 500, {
+        errorMessage: DEADLINE_ERROR_MESSAGE,
+        errorReason: "settle_exact_node_failure",
+        network,
+        payer: verification.payer,
+        success: false,
+        transaction,
+      });
+      return;
+    }
+
+    await delay(confirmationDelayMs);
+    record({ ...base, transaction, outcome: "settled", confirmedOnChain: true });
+    sendJson(res, 200, {
+      success: true,
+      payer: verification.payer,
+      transaction,
+      network,
+    });
+  });
+
+  function record(settlement: SimulatedSettlement): void {
+    if (settlement.confirmedOnChain) {
+      settlement.blockNumber = settlements.filter(s => s.confirmedOnChain).length + 1;
+      settlement.blockTime = unixSeconds();
+    }
+    settlements.push(settlement);
+    if (options.verbose) {
+      console.log(
+        `[Facilitator] ${settlement.outcome.toUpperCase()} ${settlement.resource ?? "unknown resource"}` +
+        (settlement.transaction ? ` tx=${settlement.transaction.slice(0, 10)}...` : "") +
+        (settlement.errorReason ? ` (${settlement.errorReason})` : "")
+      );
+    }
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, host, () => resolve());
+  });
+
+  const address = server.address() as AddressInfo;
+
+  return {
+    url: `http://${host}:${address.port}`,
+    settlements,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close(error => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+      }),
+  };
+}
+
+/**
+ * Answer the EVM JSON-RPC methods used for reconciliation from recorded settlements.
+ */
+function handleRpc(settlements: SimulatedSettlement[], genesisTime: number, request: unknown): unknown {
+  const rpc = asRecord(request);
+  const id = rpc?.id ?? null;
+  const params: unknown[] = Array.isArray(rpc?.params) ? rpc.params : [];
+  const confirmed = settlements.filter(s => s.confirmedOnChain && s.transaction);
+  const latestBlock = confirmed.length + 1;
+
+  switch (rpc?.method) {
+    case "eth_blockNumber":
+      return { jsonrpc: "2.0", id, result: toHex(latestBlock) };
+
+    case "eth_getBlockByNumber": {
+      // Block 0 is the simulator start, block N the Nth confirmed settlement, the latest block is now
+      const number = parseBlockTag(params[0], latestBlock, latestBlock);
+      if (number > latestBlock) {
+        return { jsonrpc: "2.0", id, result: null };
+      }
+      const timestamp =
+        number === 0 ? genesisTime :
+        number === latestBlock ? unixSeconds() :
+        confirmed[number - 1].blockTime!;
+      return { jsonrpc: "2.0", id, result: { number: toHex(number), timestamp: toHex(timestamp) } };
+    }
+
+    case "eth_getTransactionReceipt": {
+      const hash = String(params[0] ?? "").toLowerCase();
+      const settlement = confirmed.find(s => s.transaction!.toLowerCase() === hash);
+      if (!settlement) {
+        return { jsonrpc: "2.0", id, result: null };
+      }
+      return {
+        jsonrpc: "2.0",
+        id,
+        result: {
+          transactionHash: settlement.transaction,
+          blockNumber: toHex(settlement.blockNumber!),
+          status: "0x1",
+          logs: [toTransferLog(settlement)],
+        },
+      };
+    }
+
+    case "eth_getLogs": {
+      const filter = asRecord(params[0]) ?? {};
+      const fromBlock = parseBlockTag(filter.fromBlock, 0, latestBlock);
+      const toBlock = parseBlockTag(filter.toBlock, latestBlock, latestBlock);
+      const address = typeof filter.address === "string" ? filter.address.toLowerCase() : undefined;
+      const topics: unknown[] = Array.isArray(filter.topics) ? filter.topics : [];
+
+      const logs = confirmed
+        .filter(s => s.blockNumber! >= fromBlock && s.blockNumber! <= toBlock)
+        .map(toTransferLog)
+        .filter(log => !address || log.address.toLowerCase() === address)
+        .filter(log => topics.every((topic, i) => !topic || log.topics[i]?.toLowerCase() === String(topic).toLowerCase()));
+
+      return { jsonrpc: "2.0", id, result: logs };
+    }
+
+    default:
+      return { jsonrpc: "2.0", id, error: { code: -32601, message: `Method not found: ${String(rpc?.method)}` } };
+  }
+}
+
+function toTransferLog(settlement: SimulatedSettlement) {
+  return {
+    address: settlement.asset ?? "0x0000000000000000000000000000000000000000",
+    topics: [TRANSFER_EVENT_TOPIC, padAddress(settlement.payer), padAddress(settlement.payTo)],
+    data: `0x${BigInt(settlement.amount ?? 0).toString(16).padStart(64, "0")}`,
+    blockNumber: toHex(settlement.blockNumber!),
+    transactionHash: settlement.transaction!,
+    logIndex: "0x0",
+  };
+}
+
+function padAddress(address: string | undefined): string {
+  return `0x${(address ?? "").replace(/^0x/, "").toLowerCase().padStart(64, "0")}`;
+}
+
+function parseBlockTag(tag: unknown, fallback: number, latest: number): number {
+  if (tag === undefined || tag === null) return fallback;
+  if (tag === "latest" || tag === "pending" || tag === "safe" || tag === "finalized") return latest;
+  if (tag === "earliest") return 0;
+  return Number(toBigInt(tag));
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+function toBigInt(value: unknown): bigint {
+  if (typeof value === "string" || typeof value === "number" || typeof value === "bigint") {
+    return BigInt(value);
+  }
+  throw new TypeError(`Cannot convert ${value === null ? "null" : typeof value} to a BigInt`);
+}
+
+function unixSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function toHex(value: number): string {
+  return `0x${value.toString(16)}`;
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", chunk => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,249 @@
+/**
+ * Failure Models - Time-varying endpoint reliability for mock studies
+ *
+ * By default a mock endpoint fails every call with the same probability,
+ * `mockFailureRate`. Real endpoints fail in bursts and outages, and how much a
+ * reliability oracle helps depends on how well past uptime predicts the next
+ * call. A failure scenario file gives endpoints other models:
+ *
+ * - bernoulli: constant failure rate (the default)
+ * - markov: two-state healthy/down chain; each cycle a healthy endpoint goes
+ *   down with `downProbability` and a down one recovers with
+ *   `recoveryProbability`, so failures come in bursts
+ * - outage: constant rate, except every call fails inside the listed
+ *   [start, end) cycle windows
+ * - degradation: failure rate moves linearly from `startFailureRate` to
+ *   `endFailureRate` between `startCycle` and `endCycle`
+ *
+ * Price-change events set an endpoint's price from a given cycle on. The
+ * agent still sees the listed `priceUsdc`; the call is charged the new price.
+ *
+ * Models are evaluated once per cycle when a trial's outcome tape is
+ * generated. Markov transitions draw from their own substream, so the
+ * per-call outcome draws line up across models on the same seed.
+ *
+ * Scenario file (`--failure-models=PATH`), keyed by endpoint URL:
+ *   { "endpoints": { "<url>": { "model": { "kind": "markov", ... },
+ *                               "priceChanges": [{ "cycle": 20, "priceUsdc": 0.06 }] } } }
+ */
+
+import * as fs from "fs";
+import type { Endpoint } from "./config.js";
+import { MOCK_ENDPOINTS } from "./endpoints.js";
+import type { RandomSource } from "./random.js";
+
+export type FailureModelSpec =
+  | { kind: "bernoulli"; failureRate: number }
+  | {
+      kind: "markov";
+      downProbability: number;       // Healthy → down, per cycle
+      recoveryProbability: number;   // Down → healthy, per cycle
+      healthyFailureRate?: number;   // Default: 0
+      downFailureRate?: number;      // Default: 1
+    }
+  | { kind: "outage"; failureRate: number; outages: { start: number; end: number }[] }
+  | {
+      kind: "degradation";
+      startFailureRate: number;
+      endFailureRate: number;
+      startCycle?: number;           // Default: 0
+      endCycle?: number;             // Default: the trial's last cycle
+    };
+
+export interface PriceChange {
+  cycle: number;       // First cycle charged the new price
+  priceUsdc: number;
+}
+
+export interface EndpointFailureSpec {
+  model?: FailureModelSpec;          // Default: bernoulli at the endpoint's mockFailureRate
+  priceChanges?: PriceChange[];
+}
+
+export interface FailureScenario {
+  endpoints: Record<string, EndpointFailureSpec>;  // By endpoint URL
+}
+
+export interface FailureModel {
+  readonly kind: FailureModelSpec["kind"];
+  // Failure probability of the call in `cycle`; called for cycles 0, 1, 2, ... in order
+  failureRateAt(cycle: number): number;
+}
+
+const FAILURE_MODEL_KINDS: readonly FailureModelSpec["kind"][] = ["bernoulli", "markov", "outage", "degradation"];
+
+/**
+ * Build the model for one endpoint in one trial.
+ * @param spec - Model parameters
+ * @param cycles - Cycles in the trial (the default end of a degradation)
+ * @param transitions - Substream for Markov state changes
+ */
+export function createFailureModel(
+  spec: FailureModelSpec,
+  cycles: number,
+  transitions: RandomSource
+): FailureModel {
+  switch (spec.kind) {
+    case "bernoulli":
+      return { kind: spec.kind, failureRateAt: () => spec.failureRate };
+
+    case "markov": {
+      let down = false;
+      return {
+        kind: spec.kind,
+        failureRateAt(cycle) {
+          // Every endpoint starts healthy; the state moves before each later cycle
+          if (cycle > 0) {
+            const draw = transitions.next();
+            down = down ? draw >= spec.recoveryProbability : draw < spec.downProbability;
+          }
+          return down ? spec.downFailureRate ?? 1 : spec.healthyFailureRate ?? 0;
+        },
+      };
+    }
+
+    case "outage":
+      return {
+        kind: spec.kind,
+        failureRateAt: (cycle) =>
+          spec.outages.some((o) => cycle >= o.start && cycle < o.end) ? 1 : spec.failureRate,
+      };
+
+    case "degradation": {
+      const startCycle = spec.startCycle ?? 0;
+      const endCycle = spec.endCycle ?? Math.max(cycles - 1, startCycle);
+      return {
+        kind: spec.kind,
+        failureRateAt(cycle) {
+          if (cycle <= startCycle) return spec.startFailureRate;
+          if (cycle >= endCycle) return spec.endFailureRate;
+          const progress = (cycle - startCycle) / (endCycle - startCycle);
+          return spec.startFailureRate + (spec.endFailureRate - spec.startFailureRate) * progress;
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Price charged in `cycle`: the latest change at or before it, else the listed price.
+ */
+export function priceAt(endpoint: Endpoint, priceChanges: PriceChange[] | undefined, cycle: number): number {
+  let price = endpoint.priceUsdc;
+  let from = -1;
+  for (const change of priceChanges ?? []) {
+    if (change.cycle <= cycle && change.cycle > from) {
+      price = change.priceUsdc;
+      from = change.cycle;
+    }
+  }
+  return price;
+}
+
+function isRate(value: unknown): value is number {
+  return typeof value === "number" && value >= 0 && value <= 1;
+}
+
+function isCycle(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
+/**
+ * Check a scenario against the endpoints it will run on. Returns the problems found.
+ */
+export function validateFailureScenario(scenario: FailureScenario, endpoints: Endpoint[] = MOCK_ENDPOINTS): string[] {
+  const errors: string[] = [];
+  const urls = new Set(endpoints.map((e) => e.url));
+
+  for (const [url, spec] of Object.entries(scenario.endpoints ?? {})) {
+    if (!urls.has(url)) {
+      errors.push(`${url}: not a mock endpoint`);
+      continue;
+    }
+
+    const raw: unknown = spec.model;
+    const model = asRecord(raw);
+    if (raw !== undefined && !model) {
+      errors.push(`${url}: model must be an object with a "kind"`);
+    }
+    if (model) {
+      const rates: string[] = [];
+      switch (model.kind) {
+        case "bernoulli":
+          rates.push("failureRate");
+          break;
+        case "markov":
+          rates.push("downProbability", "recoveryProbability");
+          if (model.healthyFailureRate !== undefined) rates.push("healthyFailureRate");
+          if (model.downFailureRate !== undefined) rates.push("downFailureRate");
+          break;
+        case "outage":
+          rates.push("failureRate");
+          if (!Array.isArray(model.outages) ||
+              !model.outages.every((o: unknown) => {
+                const window = asRecord(o);
+                return window !== undefined && isCycle(window.start) && isCycle(window.end) && window.start < window.end;
+              })) {
+            errors.push(`${url}: outage windows need integer cycles with start < end`);
+          }
+          break;
+        case "degradation":
+          rates.push("startFailureRate", "endFailureRate");
+          for (const field of ["startCycle", "endCycle"]) {
+            if (model[field] !== undefined && !isCycle(model[field])) {
+              errors.push(`${url}: ${field} must be a non-negative integer`);
+            }
+          }
+          if (isCycle(model.startCycle) && isCycle(model.endCycle) && model.endCycle < model.startCycle) {
+            errors.push(`${url}: endCycle is before startCycle`);
+          }
+          break;
+        default:
+          errors.push(`${url}: unknown failure model "${String(model.kind)}" (${FAILURE_MODEL_KINDS.join(", ")})`);
+      }
+      for (const field of rates) {
+        if (!isRate(model[field])) {
+          errors.push(`${url}: ${String(model.kind)} ${field} must be between 0 and 1`);
+        }
+      }
+    }
+
+    const priceChanges: unknown = spec.priceChanges;
+    if (priceChanges !== undefined && !Array.isArray(priceChanges)) {
+      errors.push(`${url}: priceChanges must be an array`);
+    } else {
+      for (const raw of priceChanges ?? []) {
+        const change = asRecord(raw);
+        if (!isCycle(change?.cycle) || !(typeof change?.priceUsdc === "number" && change.priceUsdc >= 0)) {
+          errors.push(`${url}: price changes need an integer cycle and a non-negative priceUsdc`);
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Load and validate a failure scenario file.
+ */
+export function loadFailureScenario(scenarioPath: string, endpoints: Endpoint[] = MOCK_ENDPOINTS): FailureScenario {
+  if (!fs.existsSync(scenarioPath)) {
+    throw new Error(`Failure scenario not found: ${scenarioPath}`);
+  }
+  const scenario = JSON.parse(fs.readFileSync(scenarioPath, "utf-8")) as FailureScenario;
+  if (!scenario || typeof scenario.endpoints !== "object" || scenario.endpoints === null) {
+    throw new Error(`Invalid failure scenario: ${scenarioPath} needs an "endpoints" object keyed by URL`);
+  }
+  const errors = validateFailureScenario(scenario, endpoints);
+  if (errors.length > 0) {
+    throw new Error(`Invalid failure scenario ${scenarioPath}:\n  ${errors.join("\n  ")}`);
+  }
+  return scenario;
+}
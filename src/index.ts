@@ -1,17 +1,42 @@
 #!/usr/bin/env node
 
 import {
+  DEFAULT_MOCK_FAILURE_RATE,
   loadConfig,
+  loadMockZauthBehavior,
+  mockZauthFlags,
+  loadSkipPolicyConfig,
   validateConfig,
   validateRealModeConfig,
   type Config,
   type Network,
 } from "./config.js";
 import { runScientificStudy } from "./study.js";
-import { printFullReport, exportRawDataCsv, exportSummaryJson, generateMarkdownReport } from "./report.js";
+import { printFullReport, exportRawDataCsv, exportSummaryJson, exportSweepCsv, exportSweepJson, generateMarkdownReport } from "./report.js";
+import { parseSweepSpec, registerSweepConditions, resolveConditionName } from "./sweep.js";
+import { DEFAULT_SEQUENTIAL_DESIGN } from "./sequential.js";
+import type { OutcomeTapeFile, ProportionEstimate, SequentialDesign } from "./types.js";
 import { YieldOptimizerAgent } from "./yield-agent.js";
 import { createMockX402Client } from "./x402-client.js";
 import { createMockZauthClient } from "./zauth-client.js";
+import {
+  createTapePlayer,
+  exportOutcomeTapes,
+  generateOutcomeTape,
+  generateStudyTapes,
+  loadOutcomeTapeFile,
+} from "./outcome-tape.js";
+import { loadFailureScenario } from "./failure-model.js";
+import {
+  DEFAULT_SCENARIO,
+  applyFailureScenario,
+  loadScenario,
+  scenarioEndpoints,
+  scenarioFailures,
+  scenarioMockZauth,
+  type Scenario,
+} from "./scenario.js";
+import { createZauthOracle } from "./reliability-oracle.js";
 import { estimateCycleCost, BazaarDiscoveryError } from "./real-endpoints.js";
 import * as readline from "readline";
 
@@ -216,16 +241,17 @@ async function confirmRealModeSpend(params: {
   walletAddress: string;
   trials: number;
   cycles: number;
+  conditionCount: number;
   network: Network;
 }): Promise<boolean> {
-  const { budgetUsdc, estimatedSpendUsdc, walletAddress, trials, cycles, network } =
+  const { budgetUsdc, estimatedSpendUsdc, walletAddress, trials, cycles, conditionCount, network } =
     params;
 
   console.log("\n⚠️  REAL MODE - This will spend actual USDC!\n");
   console.log(`  Network:    ${network.toUpperCase()}`);
   console.log(`  Budget:     $${budgetUsdc.toFixed(2)}`);
   console.log(
-    `  Est. spend: $${estimatedSpendUsdc.toFixed(2)} (${trials} trials × ${cycles} cycles × ~$${(estimatedSpendUsdc / (trials * cycles * 2)).toFixed(4)}/cycle)`
+    `  Est. spend: $${estimatedSpendUsdc.toFixed(2)} (${trials} trials × ${cycles} cycles × ~$${(estimatedSpendUsdc / (trials * cycles * conditionCount)).toFixed(4)}/cycle)`
   );
   console.log(`  Wallet:     ${truncateWalletAddress(walletAddress)}`);
   console.log("");
@@ -258,7 +284,7 @@ async function confirmRealModeSpend(params: {
 
 // Parse CLI arguments
 interface CliArgs {
-  mode: 'study' | 'agent' | 'balance';
+  mode: 'study' | 'agent' | 'balance' | 'stand-in' | 'reconcile' | 'plan';
   trials?: number;
   cycles?: number;
   seed?: number;
@@ -271,6 +297,29 @@ interface CliArgs {
   network: Network;
   stage?: number;
   loadStage1?: string;
+  port?: number;
+  confirmationDelayMs?: number;
+  settleDeadlineMs?: number;
+  reconcilePath?: string;
+  wallet?: string;
+  conditions?: string[];
+  zauthCacheTtlMs?: number;
+  zauthStaleTtlMs?: number;
+  reputationFile?: string;
+  zauthPriceUsdc?: number;
+  sweep?: string;
+  shadowBudget?: number;
+  shadowRate?: number;
+  pilotPath?: string;
+  effectSize?: number;
+  power?: number;
+  alpha?: number;
+  sequential?: boolean;
+  futility?: number;
+  tapesPath?: string;
+  exportTapes?: boolean;
+  failureModelsPath?: string;
+  scenarioSource?: string;
 }
 
 function parseCliArgs(): CliArgs {
@@ -282,6 +331,28 @@ function parseCliArgs(): CliArgs {
       result.mode = 'study';
     } else if (arg === '--agent') {
       result.mode = 'agent';
+    } else if (arg === '--plan') {
+      result.mode = 'plan';
+    } else if (arg.startsWith('--pilot=')) {
+      result.pilotPath = arg.split('=')[1];
+    } else if (arg.startsWith('--effect-size=')) {
+      result.effectSize = parseFloat(arg.split('=')[1]);
+    } else if (arg.startsWith('--power=')) {
+      result.power = parseFloat(arg.split('=')[1]);
+    } else if (arg.startsWith('--alpha=')) {
+      result.alpha = parseFloat(arg.split('=')[1]);
+    } else if (arg === '--sequential') {
+      result.sequential = true;
+    } else if (arg.startsWith('--futility=')) {
+      result.futility = parseFloat(arg.split('=')[1]);
+    } else if (arg.startsWith('--tapes=')) {
+      result.tapesPath = arg.split('=')[1];
+    } else if (arg === '--export-tapes') {
+      result.exportTapes = true;
+    } else if (arg.startsWith('--failure-models=')) {
+      result.failureModelsPath = arg.split('=')[1];
+    } else if (arg.startsWith('--scenario=')) {
+      result.scenarioSource = arg.split('=')[1];
     } else if (arg.startsWith('--trials=')) {
       result.trials = parseInt(arg.split('=')[1], 10);
     } else if (arg.startsWith('--cycles=')) {
@@ -316,6 +387,35 @@ function parseCliArgs(): CliArgs {
       result.balance = true;
     } else if (arg.startsWith('--load-stage1=')) {
       result.loadStage1 = arg.split('=')[1];
+    } else if (arg.startsWith('--shadow-budget=')) {
+      result.shadowBudget = parseFloat(arg.split('=')[1]);
+    } else if (arg.startsWith('--shadow-rate=')) {
+      result.shadowRate = parseFloat(arg.split('=')[1]);
+    } else if (arg === '--stand-in') {
+      result.mode = 'stand-in';
+    } else if (arg.startsWith('--port=')) {
+      result.port = parseInt(arg.split('=')[1], 10);
+    } else if (arg.startsWith('--confirmation-delay=')) {
+      result.confirmationDelayMs = parseInt(arg.split('=')[1], 10);
+    } else if (arg.startsWith('--settle-deadline=')) {
+      result.settleDeadlineMs = parseInt(arg.split('=')[1], 10);
+    } else if (arg.startsWith('--reconcile=')) {
+      result.mode = 'reconcile';
+      result.reconcilePath = arg.split('=')[1];
+    } else if (arg.startsWith('--wallet=')) {
+      result.wallet = arg.split('=')[1];
+    } else if (arg.startsWith('--conditions=')) {
+      result.conditions = arg.split('=')[1].split(',').map(c => c.trim()).filter(Boolean);
+    } else if (arg.startsWith('--zauth-cache-ttl=')) {
+      result.zauthCacheTtlMs = parseFloat(arg.split('=')[1]) * 1000;
+    } else if (arg.startsWith('--zauth-stale-ttl=')) {
+      result.zauthStaleTtlMs = parseFloat(arg.split('=')[1]) * 1000;
+    } else if (arg.startsWith('--reputation-file=')) {
+      result.reputationFile = arg.split('=')[1];
+    } else if (arg.startsWith('--zauth-price=')) {
+      result.zauthPriceUsdc = parseFloat(arg.split('=')[1]);
+    } else if (arg.startsWith('--sweep=')) {
+      result.sweep = arg.split('=')[1];
     }
   }
 
@@ -332,18 +432,68 @@ USAGE:
 OPTIONS:
   --study              Run scientific study comparing no-zauth vs with-zauth
   --agent              Run single yield optimization agent
+  --plan               Compute matched trials needed for a target power, and their cost
   --stage=N            Run specific stage (1=discovery, 2+=future)
   --balance            Show wallet USDC balance and exit
+  --stand-in           Start local x402 stand-in server (no real payments)
+  --port=N             Port for --stand-in (default: 4020, facilitator on N+1)
+  --confirmation-delay=MS  Simulated on-chain confirmation time (default: 2000)
+  --settle-deadline=MS     Simulated facilitator settle deadline (default: 10000)
+  --reconcile=PATH     Match a Stage 2 folder's payments against on-chain USDC transfers
+  --wallet=ADDRESS     Wallet for --reconcile (default: from private key or receipts)
   --mode=MODE          Agent mode: no-zauth or with-zauth (default: with-zauth)
   --network=NETWORK    Network: base or solana (default: base)
   --trials=N           Number of trials per condition (default: 10)
   --cycles=N           Number of optimization cycles per trial/agent (default: 50)
   --seed=N             Random seed for reproducibility (default: random)
+  --conditions=A,B,... Study conditions (reliability oracles); first is the baseline
+                       (default: no-zauth,with-zauth; also: local-history, with-local-history,
+                       402-probe, always-trust, zauth). ORACLE@U runs an oracle at uptime cutoff U,
+                       e.g. with-zauth@0.9. With 3+ conditions every pair is compared (Holm-corrected)
+  --zauth-cache-ttl=S  Reuse each Zauth check for S seconds instead of paying again (default: 0)
+  --zauth-stale-ttl=S  Serve expired Zauth checks for S more seconds while revalidating (default: 0)
+  --reputation-file=PATH  with-local-history: load and save call history here (default: results/reputation.json
+                       in real mode; mock studies keep each trial's history in memory)
+  --zauth-price=USDC   Price per mock Zauth check (default: 0.001; real mode uses the signed price)
+  --skip-policy=P      When to skip a Zauth-checked endpoint: fixed or expected-value (default: fixed)
+  --min-uptime=C:U,... Fixed-policy uptime cutoff per category, e.g. pool:0.8,whale:0.6 (default: 0.7)
+  --data-value=C:V,... Expected-value policy: USDC value of one response per category
+                       (default: pool:0.10,whale:0.08,sentiment:0.06)
+  --sweep=threshold:A..B:S  Run the treatment (second condition) at uptime thresholds A to B
+                       in steps of S against the baseline, e.g. threshold:0.5..0.95:0.05
+                       (at most two --conditions; not with --sequential or --skip-policy=expected-value)
+  --sequential         Look after every matched trial set and stop early at an O'Brien-Fleming
+                       efficacy boundary or for futility (two-sided, --alpha, default 0.05)
+  --futility=P         --sequential: stop when conditional power drops below P (default: 0.1, 0 = off)
+  --export-tapes       Mock study: also write each trial's outcome tape to results/tapes_<timestamp>.json
+  --tapes=PATH         Mock study: replay outcome tapes from a tapes_*.json file instead of generating them
+                       (trials, cycles and seed default to the file's)
+  --scenario=NAME|PATH  Mock: market to study, a built-in (healthy-market, flaky-long-tail,
+                       outage-storm) or a YAML/JSON scenario file (default: the built-in mock endpoints)
+  --zauth-lag=N        Mock Zauth: reported uptime trails the endpoint by N cycles (default: 0)
+  --zauth-window=N     Mock Zauth: uptime averages N cycles of history (default: 1)
+  --zauth-noise=SD     Mock Zauth: Gaussian noise on the reported uptime (default: 0)
+  --zauth-staleness=P  Mock Zauth: chance a check is stale (default: 0.1)
+  --zauth-stale-age=N  Mock Zauth: a stale check trails by N more cycles (default: 3)
+  --zauth-coverage=F   Mock Zauth: chance it has data for an endpoint in a trial (default: 1)
+  --failure-models=PATH  Mock: JSON file of per-endpoint failure models (bernoulli, markov,
+                       outage, degradation) and price changes, keyed by endpoint URL; overrides
+                       the scenario's for the endpoints it lists
   --real               Use real x402 payments instead of mock (default: mock)
   --budget=N           Max USDC spend limit (required for --real mode)
+  --shadow-budget=N    Stage 2: extra USDC to pay for a sample of Zauth-skipped endpoints anyway,
+                       scoring the skip decision (default: 0, off)
+  --shadow-rate=F      Stage 2: chance each skipped endpoint is shadow-probed (default: 0.5)
   --yes, -y            Skip confirmation prompt for real mode (use in scripts)
   --help, -h           Show this help message
 
+PLANNING (--plan):
+  --pilot=PATH         Pilot study summary JSON (study_*.json) to take the effect size from
+  --effect-size=D      Expected paired effect size d_z (overrides --pilot)
+  --power=P            Target power (default: 0.8)
+  --alpha=A            Two-sided significance level (default: 0.05)
+                       --cycles, --conditions, --network and --zauth-price shape the cost estimate
+
 NETWORKS:
   base                 Use Base L2 (EVM) - more x402 endpoints available
   solana               Use Solana mainnet
@@ -364,12 +514,56 @@ EXAMPLES:
   # Run full scientific study (mock mode)
   npx tsx src/index.ts --study --trials=10 --cycles=50
 
+  # Compare several reliability oracles against the no-zauth baseline
+  npx tsx src/index.ts --study --conditions=no-zauth,with-zauth,local-history,402-probe
+
+  # Multi-arm study: Zauth at two uptime cutoffs next to local history, all pairs compared
+  npx tsx src/index.ts --study --conditions=no-zauth,with-zauth@0.7,with-zauth@0.9,local-history
+
+  # Size a real-mode study from a mock pilot: trials needed for 80% power, and cost
+  npx tsx src/index.ts --study --trials=5 --cycles=20
+  npx tsx src/index.ts --plan --pilot=results/study_<timestamp>.json --power=0.8
+
+  # Sweep the skip threshold from 50% to 95% uptime and find where net savings peak
+  npx tsx src/index.ts --study --sweep=threshold:0.5..0.95:0.05
+
+  # Cache Zauth checks for 5 seconds within each trial
+  npx tsx src/index.ts --study --zauth-cache-ttl=5
+
+  # Skip by expected value instead of a fixed 70% uptime cutoff
+  npx tsx src/index.ts --study --skip-policy=expected-value --data-value=pool:0.12
+
   # Run study on Base with real payments ($5 budget)
   npx tsx src/index.ts --study --real --network=base --budget=5.00
 
+  # Save the exact endpoint outcomes of a mock study, then re-run it on the same tapes
+  npx tsx src/index.ts --study --trials=5 --cycles=20 --export-tapes
+  npx tsx src/index.ts --study --tapes=results/tapes_<timestamp>.json --conditions=no-zauth,402-probe
+
+  # Bursty endpoints and scheduled outages instead of constant failure rates
+  npx tsx src/index.ts --study --failure-models=failure-models.json
+
+  # Study a built-in market: many flaky endpoints and a lagging Zauth with gaps in coverage
+  npx tsx src/index.ts --study --scenario=flaky-long-tail
+
+  # Real-mode study that stops as soon as the result is decisive
+  npx tsx src/index.ts --study --real --network=base --budget=5.00 --trials=20 --sequential
+
   # Show wallet USDC balance on Base
   npx tsx src/index.ts --balance --network=base
 
+  # Start the local x402 stand-in server (scripted failure profiles)
+  npx tsx src/index.ts --stand-in --port=4020
+
+  # Reproduce the facilitator settle-timeout race on every paid route
+  npx tsx src/index.ts --stand-in --confirmation-delay=15000 --settle-deadline=5000
+
+  # Reconcile a Stage 2 run against on-chain USDC transfers
+  npx tsx src/index.ts --reconcile=results/2026-01-15T10-30-00_stage2_base
+
+  # Reconcile against the stand-in's local JSON-RPC (facilitator on port 4021)
+  BASE_RPC_URL=http://127.0.0.1:4021/rpc npx tsx src/index.ts --reconcile=<folder>
+
   # Run single agent in with-zauth mode (full optimization)
   npx tsx src/index.ts --agent --mode=with-zauth --cycles=5
 `);
@@ -407,6 +601,131 @@ async function main(): Promise<void> {
       process.exit(0);
     }
 
+    // Handle --stand-in mode
+    if (cliArgs.mode === 'stand-in') {
+      const { startStandInServer } = await import('./stand-in-server.js');
+      const { startFacilitatorSimulator } = await import('./facilitator-simulator.js');
+      const port = cliArgs.port ?? 4020;
+
+      const facilitator = await startFacilitatorSimulator({
+        port: port + 1,
+        confirmationDelayMs: cliArgs.confirmationDelayMs,
+        settleDeadlineMs: cliArgs.settleDeadlineMs,
+        verbose: true,
+      });
+      const server = await startStandInServer({
+        port,
+        facilitatorUrl: facilitator.url,
+        verbose: true,
+      });
+
+      console.log("\n" + "=".repeat(60));
+      console.log("X402 STAND-IN SERVER");
+      console.log("=".repeat(60));
+      console.log(`Listening on: ${server.url}`);
+      console.log(`Facilitator:  ${facilitator.url}`);
+      console.log(
+        `Confirmation delay: ${cliArgs.confirmationDelayMs ?? 2000}ms | Settle deadline: ${cliArgs.settleDeadlineMs ?? 10000}ms`
+      );
+      console.log("");
+      for (const route of server.routes) {
+        console.log(
+          `  ${route.path.padEnd(28)} ${route.profile.padEnd(20)} $${route.priceUsdc.toFixed(3)} (${route.category})`
+        );
+      }
+      console.log("\nPress Ctrl+C to stop.");
+      console.log("=".repeat(60) + "\n");
+
+      process.on('SIGINT', async () => {
+        await server.close();
+        await facilitator.close();
+        console.log(`\nSimulated settlements: ${facilitator.settlements.length}`);
+        process.exit(0);
+      });
+      return;
+    }
+
+    // Handle --plan mode
+    if (cliArgs.mode === 'plan') {
+      const { loadPilotEffect, planStudy, printStudyPlan, defaultZauthCostPerCycle } =
+        await import('./power-analysis.js');
+
+      if (cliArgs.effectSize === undefined && !cliArgs.pilotPath) {
+        console.error("❌ --plan requires --effect-size=<d> or --pilot=<study summary JSON>");
+        process.exit(1);
+      }
+      const power = cliArgs.power ?? 0.8;
+      const alpha = cliArgs.alpha ?? 0.05;
+      if (!(power > 0 && power < 1) || !(alpha > 0 && alpha < 1)) {
+        console.error("❌ --power and --alpha must be between 0 and 1");
+        process.exit(1);
+      }
+
+      console.log("\n" + "=".repeat(60));
+      console.log("STUDY PLANNER - POWER ANALYSIS");
+      console.log("=".repeat(60) + "\n");
+
+      try {
+        const pilot = cliArgs.pilotPath ? await loadPilotEffect(cliArgs.pilotPath) : undefined;
+        const pilotZauthCost = pilot && pilot.zauthCostPerCycle > 0 ? pilot.zauthCostPerCycle : undefined;
+        const plan = planStudy({
+          effectSize: cliArgs.effectSize ?? pilot!.effectSize,
+          power,
+          alpha,
+          cyclesPerTrial: cliArgs.cycles ?? pilot?.cyclesPerTrial ?? 50,
+          conditionCount: cliArgs.conditions?.length ?? pilot?.conditionCount ?? 2,
+          // --network defaults to base, so only an explicit solana overrides the pilot
+          network: cliArgs.network !== 'base' ? cliArgs.network : pilot?.network ?? 'base',
+          zauthCostPerCycle: cliArgs.zauthPriceUsdc !== undefined
+            ? defaultZauthCostPerCycle(cliArgs.zauthPriceUsdc)
+            : pilotZauthCost ?? defaultZauthCostPerCycle(0.001),
+          pilot,
+        });
+        printStudyPlan(plan);
+      } catch (error) {
+        console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+      console.log("\n" + "=".repeat(60) + "\n");
+      return;
+    }
+
+    // Handle --reconcile mode
+    if (cliArgs.mode === 'reconcile') {
+      const { detectNetworkFromStage2Path, reconcileStage2, writeReconciliationReport } =
+        await import('./reconcile.js');
+      const config = loadConfig();
+      const stage2Path = cliArgs.reconcilePath!;
+      const network = detectNetworkFromStage2Path(stage2Path);
+
+      // Prefer an explicit wallet, then the configured key; otherwise fall back to receipt payers
+      const key = network === 'base' ? config.evmPrivateKey : config.solanaPrivateKey;
+      const walletAddress = cliArgs.wallet ??
+        (key && key !== 'mock' ? await getWalletAddress(config, network) : undefined);
+
+      console.log("\n" + "=".repeat(60));
+      console.log("ON-CHAIN BURN RECONCILIATION");
+      console.log("=".repeat(60));
+      console.log(`Stage 2 folder: ${stage2Path}`);
+      console.log(`Network: ${network.toUpperCase()}`);
+      console.log(`RPC: ${network === 'base' ? config.baseRpcUrl : config.solanaRpcUrl}`);
+
+      const report = await reconcileStage2({ stage2Path, config, network, walletAddress });
+      const { markdownPath, jsonPath } = await writeReconciliationReport(report);
+
+      console.log(`Wallet: ${report.walletAddress}`);
+      console.log("");
+      console.log(`  Recorded payments:    ${report.recordedPayments} ($${report.totals.recordedUsdc.toFixed(6)})`);
+      console.log(`  Matched:              ${report.matched.length} ($${report.totals.matchedUsdc.toFixed(6)})`);
+      console.log(`  Missing:              ${report.missing.length} ($${report.totals.missingUsdc.toFixed(6)})`);
+      console.log(`  Unexpected transfers: ${report.unexpected.length} ($${report.totals.unexpectedUsdc.toFixed(6)})`);
+      console.log("");
+      console.log(`Report: ${markdownPath}`);
+      console.log(`Data:   ${jsonPath}`);
+      console.log("=".repeat(60) + "\n");
+      process.exit(0);
+    }
+
     // Handle --agent mode
     if (cliArgs.mode === 'agent') {
       const stage = cliArgs.stage ?? undefined;
@@ -526,6 +845,13 @@ async function main(): Promise<void> {
         // Use detected network
         const stage2Network = detectedNetwork;
 
+        const shadowBudget = cliArgs.shadowBudget ?? 0;
+        const shadowRate = cliArgs.shadowRate ?? 0.5;
+        if (!(shadowBudget >= 0) || !(shadowRate >= 0 && shadowRate <= 1)) {
+          console.error("❌ --shadow-budget must be >= 0 and --shadow-rate must be between 0 and 1");
+          process.exit(1);
+        }
+
         console.log("\n" + "=".repeat(60));
         console.log("STAGE 2: REAL YIELD OPTIMIZATION - INTERLEAVED COMPARISON");
         console.log("=".repeat(60));
@@ -550,15 +876,15 @@ async function main(): Promise<void> {
           process.exit(1);
         }
 
-        // Require balance >= budget (for endpoint payments)
+        // Require balance >= budget (for endpoint payments and shadow probes)
         // Plus recommend extra for gas fees
-        const requiredBalance = cliArgs.budget;
-        const recommendedBalance = cliArgs.budget * 1.5; // 50% extra for gas
+        const requiredBalance = cliArgs.budget + shadowBudget;
+        const recommendedBalance = requiredBalance * 1.5; // 50% extra for gas
 
         console.log(`\n💰 Wallet Balance Check:`);
         console.log(`   Address: ${truncateWalletAddress(walletAddress)}`);
         console.log(`   Balance: $${usdcBalance.toFixed(6)} USDC`);
-        console.log(`   Required: $${requiredBalance.toFixed(6)} USDC (budget)`);
+        console.log(`   Required: $${requiredBalance.toFixed(6)} USDC (budget${shadowBudget > 0 ? ' + shadow budget' : ''})`);
         console.log(`   Recommended: $${recommendedBalance.toFixed(6)} USDC (budget + gas)\n`);
 
         if (usdcBalance < requiredBalance) {
@@ -608,6 +934,10 @@ async function main(): Promise<void> {
           console.log("\nEach endpoint will be queried TWICE:");
           console.log("  1. No-zauth mode (blind query)");
           console.log("  2. With-zauth mode (reliability check first)");
+          if (shadowBudget > 0) {
+            console.log(`\nShadow probes: ${(shadowRate * 100).toFixed(0)}% of Zauth-skipped endpoints are paid for anyway,`);
+            console.log(`up to $${shadowBudget.toFixed(2)} USDC on top of the budget.`);
+          }
           console.log("\nPress 'y' to continue or any other key to cancel.");
 
           const rl = readline.createInterface({
@@ -646,7 +976,8 @@ async function main(): Promise<void> {
           stage2Network,
           config,
           x402Client,
-          zauthClient
+          zauthClient,
+          { shadowProbeBudget: shadowBudget, shadowProbeRate: shadowRate }
         );
 
         // Export results
@@ -683,6 +1014,18 @@ async function main(): Promise<void> {
         console.log(`  Net savings: $${result.comparisonSummary.totalNetSavings.toFixed(3)}`);
         console.log(`  Burn reduction: ${result.comparisonSummary.burnReduction.toFixed(1)}%`);
         console.log('');
+        if (result.shadowProbes) {
+          const shadow = result.shadowProbes;
+          const formatEstimate = (e: ProportionEstimate | null) =>
+            e === null ? 'n/a' :
+            `${(e.estimate * 100).toFixed(1)}% [${(e.ci95[0] * 100).toFixed(1)}%, ${(e.ci95[1] * 100).toFixed(1)}%]${e.approximate ? ' (approximate)' : ''}`;
+          console.log('Shadow Probes:');
+          console.log(`  Probed: ${shadow.probed} of ${shadow.skipped} skipped ($${shadow.spentUsdc.toFixed(3)} of $${shadow.budgetUsdc.toFixed(3)})`);
+          console.log(`  False skips: ${shadow.probesSucceeded}, true skips: ${shadow.probesFailed}`);
+          console.log(`  Skip precision: ${formatEstimate(shadow.precision)}`);
+          console.log(`  Skip recall: ${formatEstimate(shadow.recall)}`);
+          console.log('');
+        }
         console.log(`📁 Results: ${paths.folderPath}`);
         console.log('='.repeat(60) + '\n');
 
@@ -698,6 +1041,12 @@ async function main(): Promise<void> {
       console.log(`Seed: ${seed}`);
       console.log("=".repeat(60) + "\n");
 
+      // The mock market, with any --failure-models overrides
+      let scenario: Scenario = cliArgs.scenarioSource ? loadScenario(cliArgs.scenarioSource) : DEFAULT_SCENARIO;
+      if (cliArgs.failureModelsPath) {
+        scenario = applyFailureScenario(scenario, loadFailureScenario(cliArgs.failureModelsPath, scenarioEndpoints(scenario)));
+      }
+
       // Create verbose config
       const config: Config = {
         evmPrivateKey: 'mock',
@@ -708,38 +1057,37 @@ async function main(): Promise<void> {
         iterations: cycles,
         delayMs: 0,
         maxUsdcSpend: 999999,
-        mockFailureRate: 0.3,
+        mockFailureRate: scenario.defaultFailureRate ?? DEFAULT_MOCK_FAILURE_RATE,
+        mockZauthPriceUsdc: cliArgs.zauthPriceUsdc ?? scenario.zauth?.priceUsdc ?? 0.001,
         zauthDirectoryUrl: 'mock',
         zauthCheckUrl: 'mock',
+        zauthCacheTtl: cliArgs.zauthCacheTtlMs ?? 0,
+        zauthStaleTtl: cliArgs.zauthStaleTtlMs ?? 0,
+        reputationFile: cliArgs.reputationFile,
+        skipPolicy: loadSkipPolicyConfig(),
+        mockZauth: loadMockZauthBehavior(scenarioMockZauth(scenario)),
+        mockEndpoints: scenarioEndpoints(scenario),
         bazaarUrl: 'https://api.cdp.coinbase.com/platform/v2/x402',
         bazaarCacheTtl: 3600000,
         outputDir: 'results',
         verbose: true, // Enable verbose output
       };
 
-      // Create seeded RNG for deterministic behavior
-      const createSeededRng = (seed: number) => {
-        let state = seed;
-        return {
-          next: () => {
-            state = (state * 1103515245 + 12345) & 0x7fffffff;
-            return state / 0x7fffffff;
-          }
-        };
-      };
-
-      const rng = createSeededRng(seed);
+      // Same outcome tape as a study trial on this seed, for deterministic behavior
+      const tape = createTapePlayer(
+        generateOutcomeTape(seed, scenarioEndpoints(scenario), cycles, config, scenarioFailures(scenario))
+      );
 
       // Create clients
-      const x402Client = createMockX402Client(config, rng);
-      const zauthClient = createMockZauthClient(config, rng);
+      const x402Client = createMockX402Client(config, tape);
+      const zauthClient = createMockZauthClient(config, tape);
 
       // Create agent (mock mode = mock endpoints)
       const agent = new YieldOptimizerAgent(
         agentMode,
         config,
         x402Client,
-        agentMode === 'with-zauth' ? zauthClient : undefined,
+        agentMode === 'with-zauth' ? createZauthOracle(zauthClient, { name: 'with-zauth', policy: config.skipPolicy }) : undefined,
         "mock", // Agent debug mode always uses mock endpoints
         "base", // Default network
         undefined // No Bazaar in debug mode
@@ -832,24 +1180,121 @@ async function main(): Promise<void> {
 
     // Handle --study mode
     if (cliArgs.mode === 'study') {
-      const trials = cliArgs.trials ?? 10;
-      const cycles = cliArgs.cycles ?? 50;
-      const baseSeed = cliArgs.seed ?? Date.now();
+      // Replayed tapes fix the endpoints' behaviour; the study shape defaults to theirs
+      let replay: OutcomeTapeFile | undefined;
+      if (cliArgs.tapesPath) {
+        if (cliArgs.real) {
+          console.error("❌ --tapes replays mock endpoint outcomes and cannot be combined with --real");
+          process.exit(1);
+        }
+        if (cliArgs.failureModelsPath || cliArgs.scenarioSource) {
+          console.error("❌ --failure-models and --scenario have no effect with --tapes: the tapes already fix every outcome");
+          process.exit(1);
+        }
+        replay = loadOutcomeTapeFile(cliArgs.tapesPath);
+      }
+      if ((cliArgs.failureModelsPath || cliArgs.scenarioSource) && cliArgs.real) {
+        console.error("❌ --failure-models and --scenario only apply to mock endpoints and cannot be combined with --real");
+        process.exit(1);
+      }
+      // The mock market: the tapes' own, or the chosen scenario with any --failure-models overrides
+      let scenario: Scenario = replay
+        ? replay.scenario ?? DEFAULT_SCENARIO
+        : cliArgs.scenarioSource ? loadScenario(cliArgs.scenarioSource) : DEFAULT_SCENARIO;
+      if (cliArgs.failureModelsPath) {
+        scenario = applyFailureScenario(scenario, loadFailureScenario(cliArgs.failureModelsPath, scenarioEndpoints(scenario)));
+      }
+
+      const trials = cliArgs.trials ?? replay?.tapes.length ?? 10;
+      const cycles = cliArgs.cycles ?? replay?.cyclesPerTrial ?? 50;
+      const baseSeed = cliArgs.seed ?? replay?.baseSeed ?? Date.now();
       const mockMode = !cliArgs.real;
       const budgetUsdc = cliArgs.budget;
       const network = cliArgs.network;
+      let conditions = cliArgs.conditions ?? ['no-zauth', 'with-zauth'];
+
+      // "with-zauth@0.9" arms: the oracle at a fixed uptime cutoff
+      try {
+        conditions = conditions.map(resolveConditionName);
+      } catch (error) {
+        console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+      if (new Set(conditions).size !== conditions.length) {
+        console.error(`Error: duplicate study condition in ${conditions.join(', ')}`);
+        process.exit(1);
+      }
+
+      // A sweep replaces the treatment with one condition per threshold level
+      let sweep;
+      if (cliArgs.sweep) {
+        // The sweep arms would replace any extra conditions, and sequential stopping only monitors one pair
+        if (conditions.length > 2) {
+          console.error(`Error: --sweep runs one baseline against one swept treatment; got ${conditions.length} conditions (${conditions.join(', ')})`);
+          process.exit(1);
+        }
+        if (cliArgs.sequential) {
+          console.error('Error: --sweep cannot be combined with --sequential (stopping would only monitor the first threshold)');
+          process.exit(1);
+        }
+        // Every level is a fixed uptime cutoff, so it would silently replace the expected-value policy
+        if (loadSkipPolicyConfig().mode === 'expected-value') {
+          console.error('Error: --sweep sweeps the fixed policy\'s uptime cutoff and cannot be combined with --skip-policy=expected-value (or SKIP_POLICY)');
+          process.exit(1);
+        }
+        try {
+          sweep = parseSweepSpec(cliArgs.sweep, conditions[1] ?? 'with-zauth');
+        } catch (error) {
+          console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+          process.exit(1);
+        }
+        conditions = [conditions[0], ...registerSweepConditions(sweep)];
+      }
+
+      let sequential: SequentialDesign | undefined;
+      if (cliArgs.sequential) {
+        sequential = {
+          ...DEFAULT_SEQUENTIAL_DESIGN,
+          alpha: cliArgs.alpha ?? DEFAULT_SEQUENTIAL_DESIGN.alpha,
+          futilityPower: cliArgs.futility ?? DEFAULT_SEQUENTIAL_DESIGN.futilityPower,
+        };
+        if (!(sequential.alpha > 0 && sequential.alpha < 1) || !(sequential.futilityPower >= 0 && sequential.futilityPower < 1)) {
+          console.error("❌ --alpha must be between 0 and 1 and --futility between 0 (off) and 1");
+          process.exit(1);
+        }
+      }
 
       console.log("\n" + "=".repeat(60));
       console.log("ZAUTH X402 SCIENTIFIC STUDY");
       console.log("=".repeat(60));
       console.log(`Network: ${network.toUpperCase()}`);
+      console.log(`Conditions: ${conditions.join(', ')}`);
       console.log(`Trials per condition: ${trials}`);
       console.log(`Cycles per trial: ${cycles}`);
       console.log(`Base seed: ${baseSeed}`);
       console.log(`Payment mode: ${mockMode ? 'MOCK' : 'REAL'}`);
+      if (mockMode) {
+        console.log(`Scenario: ${scenario.name}${scenario.description ? ` - ${scenario.description}` : ''}`);
+      }
+      if (cliArgs.tapesPath) {
+        console.log(`Outcome tapes: ${cliArgs.tapesPath}`);
+      }
+      if (cliArgs.failureModelsPath) {
+        console.log(`Failure models: ${cliArgs.failureModelsPath}`);
+      }
+      const zauthFlags = mockMode && !replay ? mockZauthFlags(loadMockZauthBehavior(scenarioMockZauth(scenario))) : [];
+      if (zauthFlags.length > 0) {
+        console.log(`Mock Zauth: ${zauthFlags.join(' ')}`);
+      }
       if (budgetUsdc !== undefined) {
         console.log(`Budget: $${budgetUsdc.toFixed(2)}`);
       }
+      if (sequential) {
+        console.log(
+          `Sequential: up to ${trials} trials, alpha ${sequential.alpha}, ` +
+          `futility ${sequential.futilityPower > 0 ? `below ${(sequential.futilityPower * 100).toFixed(0)}% conditional power` : 'off'}`
+        );
+      }
       console.log("=".repeat(60) + "\n");
 
       // Create base config (load from .env or use defaults)
@@ -865,9 +1310,16 @@ async function main(): Promise<void> {
           iterations: cycles,
           delayMs: 0,
           maxUsdcSpend: 999999,
-          mockFailureRate: 0.3,
+          mockFailureRate: scenario.defaultFailureRate ?? DEFAULT_MOCK_FAILURE_RATE,
+          mockZauthPriceUsdc: cliArgs.zauthPriceUsdc ?? scenario.zauth?.priceUsdc ?? 0.001,
           zauthDirectoryUrl: 'mock',
           zauthCheckUrl: 'mock',
+          zauthCacheTtl: cliArgs.zauthCacheTtlMs ?? 0,
+          zauthStaleTtl: cliArgs.zauthStaleTtlMs ?? 0,
+          reputationFile: cliArgs.reputationFile,
+          skipPolicy: loadSkipPolicyConfig(),
+          mockZauth: loadMockZauthBehavior(scenarioMockZauth(scenario)),
+          mockEndpoints: scenarioEndpoints(scenario),
           bazaarUrl: 'https://api.cdp.coinbase.com/platform/v2/x402',
           bazaarCacheTtl: 3600000,
           outputDir: 'results',
@@ -888,9 +1340,9 @@ async function main(): Promise<void> {
           // Get wallet address for display
           const walletAddress = await getWalletAddress(baseConfig, network);
 
-          // Estimate spend: trials × cycles × 2 conditions × cost per cycle
+          // Estimate spend: trials × cycles × conditions × cost per cycle
           const costPerCycle = estimateCycleCost(network);
-          const estimatedSpend = trials * cycles * 2 * costPerCycle;
+          const estimatedSpend = trials * cycles * conditions.length * costPerCycle;
 
           const confirmed = await confirmRealModeSpend({
             budgetUsdc: budgetUsdc!,
@@ -898,6 +1350,7 @@ async function main(): Promise<void> {
             walletAddress,
             trials,
             cycles,
+            conditionCount: conditions.length,
             network,
           });
 
@@ -920,12 +1373,24 @@ async function main(): Promise<void> {
         console.log(`[Bazaar] Discovery enabled (cache TTL: ${baseConfig.bazaarCacheTtl / 1000}s)\n`);
       }
 
+      // Embedded in the exported study and tapes: the market exactly as this study ran it
+      const scenarioAsRun: Scenario | undefined = mockMode
+        ? { ...scenario, zauth: { ...baseConfig.mockZauth, priceUsdc: baseConfig.mockZauthPriceUsdc } }
+        : undefined;
+
       // Run the scientific study
       const studyConfig = {
         trialsPerCondition: trials,
         cyclesPerTrial: cycles,
         baseSeed,
-        conditions: ['no-zauth', 'with-zauth'] as ["no-zauth", "with-zauth"],
+        conditions,
+        sweep,
+        sequential,
+        tapeFile: cliArgs.tapesPath,
+        failureModels: cliArgs.failureModelsPath,
+        scenarioSource: cliArgs.scenarioSource,
+        scenario: scenarioAsRun,
+        mockZauth: mockMode && !replay ? baseConfig.mockZauth : undefined,
         outputDir: 'results',
         mockMode,
         budgetUsdc,
@@ -933,11 +1398,16 @@ async function main(): Promise<void> {
         bazaarClient,
       };
 
+      // Generated up front so --export-tapes writes exactly what the trials replayed
+      const tapes = mockMode
+        ? replay?.tapes ?? generateStudyTapes(baseSeed, trials, cycles, baseConfig, scenarioFailures(scenario))
+        : undefined;
+
       console.log("Running scientific study...\n");
 
       let results;
       try {
-        results = await runScientificStudy(studyConfig, baseConfig, bazaarClient);
+        results = await runScientificStudy(studyConfig, baseConfig, bazaarClient, tapes);
       } catch (error) {
         if (error instanceof BazaarDiscoveryError) {
           console.error("\n❌ Bazaar endpoint discovery failed:");
@@ -975,6 +1445,21 @@ async function main(): Promise<void> {
       console.log(`  JSON: ${jsonPath}`);
       console.log(`  MD:   ${mdPath}`);
 
+      if (results.sweep) {
+        const sweepCsvPath = `${studyConfig.outputDir}/sweep_${timestamp}.csv`;
+        const sweepJsonPath = `${studyConfig.outputDir}/sweep_${timestamp}.json`;
+        exportSweepCsv(results.sweep, sweepCsvPath, studyConfig);
+        exportSweepJson(results.sweep, sweepJsonPath, studyConfig);
+        console.log(`  Sweep CSV:  ${sweepCsvPath}`);
+        console.log(`  Sweep JSON: ${sweepJsonPath}`);
+      }
+
+      if (cliArgs.exportTapes && tapes) {
+        const tapesPath = `${studyConfig.outputDir}/tapes_${timestamp}.json`;
+        exportOutcomeTapes(tapes.slice(0, results.noZauth.trials.length), tapesPath, baseSeed, cycles, scenarioAsRun);
+        console.log(`  Tapes: ${tapesPath}`);
+      }
+
       console.log("\n" + "=".repeat(60));
       console.log("STUDY COMPLETE");
       console.log("=".repeat(60) + "\n");
@@ -0,0 +1,258 @@
+/**
+ * Outcome Tapes - Pre-generated endpoint behaviour for exact paired comparisons
+ *
+ * Before a mock trial runs, its seed is turned into a tape: for every cycle and
+ * endpoint, whether the paid call succeeds, its latency, its response body, and
+ * what a Zauth check right before it reports. Every condition in the trial
+ * replays the same tape, so conditions differ only in what their oracle
+ * decides, never in what the endpoints do.
+ *
+ * Each endpoint's failure rate and price per cycle come from its failure model
+ * (see failure-model.ts); without one, a constant `mockFailureRate`.
+ * The Zauth check sees those rates through `config.mockZauth`: late, averaged,
+ * noisy, sometimes stale, or not at all for endpoints outside its coverage.
+ *
+ * The agent considers each endpoint once per cycle, so a `TapePlayer` keeps one
+ * cursor per endpoint URL. A query or a skip consumes the next call (the skip's
+ * counterfactual is the call it would have made); a Zauth check looks at the
+ * call about to be consumed without advancing.
+ *
+ * The player also keeps tape time: the simulated milliseconds the mock clients
+ * have waited on calls and checks. Anything in a mock trial that ages (Zauth
+ * cache entries, local reputation) reads this clock instead of wall-clock
+ * time, so results do not depend on how fast the machine runs.
+ *
+ * Tapes are plain JSON. `--export-tapes` writes a study's tapes, with the
+ * scenario they were generated from, next to its results, and `--tapes=PATH`
+ * replays them (on that scenario's endpoints) instead of generating new ones.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { Config, Endpoint, MockZauthBehavior } from "./config.js";
+import type { OutcomeTape, OutcomeTapeFile, TapeCall, TapeZauthCheck } from "./types.js";
+import {
+  MOCK_ENDPOINTS,
+  generateMockErrorResponse,
+  generateMockResponse,
+  sampleMockLatencyMs,
+} from "./endpoints.js";
+import { STREAMS, createRandomStreams } from "./random.js";
+import { createFailureModel, priceAt, type FailureScenario } from "./failure-model.js";
+import type { Scenario } from "./scenario.js";
+
+const TAPE_VERSION = 3;
+
+// Uniform [0, 1) sources for each part of one simulated call
+export interface CallDraws {
+  outcome: () => number;
+  latency: () => number;
+  data: () => number;
+}
+
+/**
+ * What a mock Zauth check right before the call in `cycle` reports. Zauth
+ * sees the endpoint's failure rates only up to `lagCycles` ago (plus
+ * `staleAgeCycles` for a stale answer), averages `windowCycles` of them and
+ * adds noise. Cycles before the trial count as the first cycle's rate.
+ */
+export function simulateZauthCheck(
+  endpoint: Endpoint,
+  failureRates: number[],
+  cycle: number,
+  behavior: MockZauthBehavior,
+  random: () => number,
+  covered: boolean = true
+): TapeZauthCheck {
+  const rateAt = (c: number) => failureRates[Math.min(Math.max(c, 0), failureRates.length - 1)];
+  const latencyMs = 50 + random() * 50;
+  const stale = random() < behavior.staleProbability;
+  const seenUpTo = cycle - behavior.lagCycles - (stale ? behavior.staleAgeCycles : 0);
+
+  let observedFailureRate = 0;
+  for (let k = 0; k < behavior.windowCycles; k++) {
+    observedFailureRate += rateAt(seenUpTo - k) / behavior.windowCycles;
+  }
+  // Box-Muller; both draws are always taken so the noise level never shifts later draws
+  const u1 = random();
+  const u2 = random();
+  const noise = Math.sqrt(-2 * Math.log(1 - u1)) * Math.cos(2 * Math.PI * u2);
+
+  return {
+    covered,
+    uptime: Math.min(Math.max(1 - observedFailureRate + behavior.noiseStdDev * noise, 0), 1),
+    latencyMs,
+    working: random() > rateAt(seenUpTo) * 0.5, // Latest probe has better odds
+    cached: random() > 0.7,
+    stale,
+    responseTimeMs: sampleMockLatencyMs(endpoint, random),
+  };
+}
+
+/**
+ * One paid call to a mock endpoint, and the Zauth check before it. Payment
+ * always "succeeds" in mock mode; a failed call pays and gets an error body back.
+ */
+export function simulateCall(
+  endpoint: Endpoint,
+  failureRate: number,
+  priceUsdc: number,
+  draws: CallDraws,
+  zauth: TapeZauthCheck
+): TapeCall {
+  const success = draws.outcome() >= failureRate;
+  return {
+    failureRate,
+    priceUsdc,
+    success,
+    latencyMs: sampleMockLatencyMs(endpoint, draws.latency),
+    payload: success ? generateMockResponse(endpoint, draws.data) : generateMockErrorResponse(draws.data),
+    zauth,
+  };
+}
+
+/**
+ * Tape for one trial seed, from the seed's named substreams (see random.ts).
+ * Endpoints missing from `scenario` fail at a constant `mockFailureRate`.
+ */
+export function generateOutcomeTape(
+  seed: number,
+  endpoints: Endpoint[],
+  cycles: number,
+  config: Config,
+  scenario?: FailureScenario
+): OutcomeTape {
+  const streams = createRandomStreams(seed);
+  const latency = streams.stream(STREAMS.latency);
+  const calls: Record<string, TapeCall[]> = {};
+
+  for (const endpoint of endpoints) {
+    const outcome = streams.stream(STREAMS.outcomes(endpoint.url));
+    const zauth = streams.stream(STREAMS.zauth(endpoint.url));
+    const spec = scenario?.endpoints[endpoint.url];
+    const model = createFailureModel(
+      spec?.model ?? { kind: "bernoulli", failureRate: endpoint.mockFailureRate ?? config.mockFailureRate },
+      cycles,
+      streams.stream(STREAMS.failureState(endpoint.url))
+    );
+    const failureRates = Array.from({ length: cycles }, (_, cycle) => model.failureRateAt(cycle));
+    // Zauth either knows an endpoint for the whole trial or not at all
+    const covered = zauth.next() < config.mockZauth.coverage;
+
+    calls[endpoint.url] = failureRates.map((failureRate, cycle) => {
+      const data = streams.fork(STREAMS.data(endpoint.url, cycle));
+      return simulateCall(
+        endpoint,
+        failureRate,
+        priceAt(endpoint, spec?.priceChanges, cycle),
+        { outcome: () => outcome.next(), latency: () => latency.next(), data: () => data.next() },
+        simulateZauthCheck(endpoint, failureRates, cycle, config.mockZauth, () => zauth.next(), covered)
+      );
+    });
+  }
+
+  return { seed, cycles, endpoints: calls };
+}
+
+/**
+ * Tapes for trials baseSeed, baseSeed + 1, ... of a mock study.
+ */
+export function generateStudyTapes(
+  baseSeed: number,
+  trials: number,
+  cycles: number,
+  config: Config,
+  scenario?: FailureScenario,
+  endpoints: Endpoint[] = config.mockEndpoints ?? MOCK_ENDPOINTS
+): OutcomeTape[] {
+  return Array.from(
+    { length: trials },
+    (_, i) => generateOutcomeTape(baseSeed + i, endpoints, cycles, config, scenario)
+  );
+}
+
+export class TapePlayer {
+  readonly tape: OutcomeTape;
+  private readonly positions = new Map<string, number>();
+  private elapsedMs = 0;
+
+  constructor(tape: OutcomeTape) {
+    this.tape = tape;
+  }
+
+  /**
+   * The call this endpoint will make next, without consuming it. Past the end
+   * of the tape (e.g. a background Zauth revalidation after the last cycle)
+   * it stays on the last call.
+   */
+  peek(url: string): TapeCall {
+    const calls = this.calls(url);
+    return calls[Math.min(this.positions.get(url) ?? 0, calls.length - 1)];
+  }
+
+  /**
+   * Consume the endpoint's next call.
+   */
+  next(url: string): TapeCall {
+    const calls = this.calls(url);
+    const position = this.positions.get(url) ?? 0;
+    if (position >= calls.length) {
+      throw new Error(`Outcome tape for seed ${this.tape.seed} has only ${calls.length} cycles for ${url}`);
+    }
+    this.positions.set(url, position + 1);
+    return calls[position];
+  }
+
+  /**
+   * Tape time: simulated ms elapsed since the trial started.
+   */
+  now(): number {
+    return this.elapsedMs;
+  }
+
+  /**
+   * Move tape time forward, e.g. by the latency of a call a mock client makes.
+   */
+  advance(ms: number): void {
+    this.elapsedMs += ms;
+  }
+
+  private calls(url: string): TapeCall[] {
+    const calls = this.tape.endpoints[url];
+    if (!calls || calls.length === 0) {
+      throw new Error(`Outcome tape for seed ${this.tape.seed} has no calls for ${url}`);
+    }
+    return calls;
+  }
+}
+
+/**
+ * Factory function to create a fresh player (all cursors at cycle 0) for a tape.
+ */
+export function createTapePlayer(tape: OutcomeTape): TapePlayer {
+  return new TapePlayer(tape);
+}
+
+export function exportOutcomeTapes(
+  tapes: OutcomeTape[],
+  outputPath: string,
+  baseSeed: number,
+  cyclesPerTrial: number,
+  scenario?: Scenario
+): void {
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  const file: OutcomeTapeFile = { version: TAPE_VERSION, baseSeed, cyclesPerTrial, scenario, tapes };
+  fs.writeFileSync(outputPath, JSON.stringify(file));
+  console.log(`Outcome tapes exported to: ${outputPath}`);
+}
+
+export function loadOutcomeTapeFile(tapePath: string): OutcomeTapeFile {
+  if (!fs.existsSync(tapePath)) {
+    throw new Error(`Outcome tape file not found: ${tapePath}`);
+  }
+  const data = JSON.parse(fs.readFileSync(tapePath, "utf-8"));
+  if (data?.version !== TAPE_VERSION || !Array.isArray(data.tapes) || data.tapes.length === 0) {
+    throw new Error(`Invalid outcome tape file: ${tapePath} (expected version ${TAPE_VERSION} with at least one tape)`);
+  }
+  return data as OutcomeTapeFile;
+}
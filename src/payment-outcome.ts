@@ -0,0 +1,115 @@
+/**
+ * Payment Outcome Classification
+ *
+ * Helpers for the `PaymentOutcome` taxonomy. Outcomes are classified from
+ * protocol evidence (which requests were sent, status codes, settlement
+ * headers, facilitator error bodies) rather than by searching error messages.
+ */
+
+import type { BurnByOutcome, PaymentOutcomeKind } from './types.js';
+
+export const PAYMENT_OUTCOME_KINDS: PaymentOutcomeKind[] = [
+  'pre-payment-rejection',
+  'signing-failure',
+  'settlement-failure',
+  'paid-http-error',
+  'paid-invalid-body',
+  'success',
+];
+
+/**
+ * Create a zeroed burn-per-outcome record.
+ */
+export function emptyBurnByOutcome(): BurnByOutcome {
+  return {
+    'pre-payment-rejection': 0,
+    'signing-failure': 0,
+    'settlement-failure': 0,
+    'paid-http-error': 0,
+    'paid-invalid-body': 0,
+    'success': 0,
+  };
+}
+
+/**
+ * Add two burn-per-outcome records.
+ */
+export function addBurnByOutcome(a: BurnByOutcome, b: BurnByOutcome): BurnByOutcome {
+  const sum = emptyBurnByOutcome();
+  for (const kind of PAYMENT_OUTCOME_KINDS) {
+    sum[kind] = a[kind] + b[kind];
+  }
+  return sum;
+}
+
+/**
+ * CSV column name for an outcome kind (e.g. "paid-http-error" → "burnPaidHttpError").
+ */
+export function outcomeColumnName(kind: PaymentOutcomeKind): string {
+  return 'burn' + kind
+    .split('-')
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
+
+/**
+ * Decode a base64 PAYMENT-RESPONSE / X-PAYMENT-RESPONSE settlement header.
+ *
+ * @param value - Raw header value (null if absent)
+ * @returns Parsed settlement response or null if absent/invalid
+ */
+export function decodeSettlementHeader(value: string | null): {
+  success?: boolean;
+  transaction?: string;
+  network?: string;
+  payer?: string;
+  errorReason?: string;
+} | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64').toString('utf-8'));
+    return parsed && typeof parsed === 'object' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extract facilitator evidence (error reason, transaction hash) from a
+ * settlement-failure response body.
+ *
+ * Handles both a flat `{ errorReason, transaction }` body and the resource-server
+ * wrapping seen in production, where the facilitator JSON is embedded in a
+ * `details` string: `"Facilitator settle failed (500): { ... }"`.
+ */
+export function extractFacilitatorEvidence(body: unknown): {
+  errorReason?: string;
+  transaction?: string;
+} {
+  if (!body || typeof body !== 'object') {
+    return {};
+  }
+
+  const record = body as Record<string, unknown>;
+  let source: Record<string, unknown> = record;
+
+  if (typeof record.details === 'string') {
+    const jsonStart = record.details.indexOf('{');
+    if (jsonStart >= 0) {
+      try {
+        source = JSON.parse(record.details.slice(jsonStart));
+      } catch {
+        // Details are not JSON; fall back to top-level fields
+      }
+    }
+  }
+
+  const errorReason = typeof source.errorReason === 'string' ? source.errorReason : undefined;
+  const transaction =
+    typeof source.transaction === 'string' && source.transaction !== '' ? source.transaction : undefined;
+
+  return { errorReason, transaction };
+}
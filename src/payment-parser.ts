@@ -5,7 +5,7 @@
  * 402 Payment Required response headers.
  */
 
-import type { PaymentRequiredHeader, PaymentRequirement } from './types.js';
+import type { PaymentRequiredHeader, PaymentRequirement, PriceDrift } from './types.js';
 
 // Known USDC contract addresses (from bazaar-mapper.ts)
 const USDC_ADDRESSES = {
@@ -166,3 +166,78 @@ export function formatNetwork(network: string): string {
   if (network === 'solana') return 'Solana';
   return network;
 }
+
+/**
+ * Decode a base64 PAYMENT-SIGNATURE / X-PAYMENT request header.
+ * Only the fields needed to describe what was signed are extracted.
+ *
+ * @param value - Raw header value
+ * @returns Signed payment summary or null if absent/invalid
+ */
+export function decodePaymentPayloadHeader(value: string | null): {
+  network?: string;
+  asset?: string;
+  payer?: string;
+  payTo?: string;
+  amountAtomic?: string;
+} | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64').toString('utf-8'));
+    if (!parsed || typeof parsed !== 'object') {
+      return null;
+    }
+
+    // v2 payloads echo the accepted requirement; v1 payloads carry network at the top level
+    const accepted = parsed.accepted ?? {};
+    const authorization = parsed.payload?.authorization ?? {};
+    const amount = authorization.value ?? accepted.amount ?? accepted.maxAmountRequired;
+
+    return {
+      network: accepted.network ?? parsed.network,
+      asset: accepted.asset,
+      payer: authorization.from,
+      payTo: authorization.to ?? accepted.payTo,
+      amountAtomic: amount !== undefined ? String(amount) : undefined,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compare the Bazaar-listed price, the Stage 1 402 price and the charged price.
+ * Differences smaller than one atomic unit (0.000001 USDC) are not drift.
+ *
+ * @param bazaarPriceUsdc - Price listed in Bazaar discovery
+ * @param stage1PriceUsdc - Price parsed from the Stage 1 402 response (null/undefined if unknown)
+ * @param chargedUsdc - Price signed in the payment payload (undefined if nothing was signed)
+ * @returns Per-endpoint price drift
+ */
+export function computePriceDrift(
+  bazaarPriceUsdc: number,
+  stage1PriceUsdc: number | null | undefined,
+  chargedUsdc: number | undefined
+): PriceDrift {
+  const stage1 = stage1PriceUsdc ?? null;
+  const charged = chargedUsdc ?? null;
+  const diff = (from: number | null, to: number | null): number | null =>
+    from === null || to === null ? null : Math.round((to - from) * 1_000_000) / 1_000_000;
+
+  const bazaarToStage1Usdc = diff(bazaarPriceUsdc, stage1);
+  const stage1ToChargedUsdc = diff(stage1, charged);
+  const bazaarToChargedUsdc = diff(bazaarPriceUsdc, charged);
+
+  return {
+    bazaarPriceUsdc,
+    stage1PriceUsdc: stage1,
+    chargedUsdc: charged,
+    bazaarToStage1Usdc,
+    stage1ToChargedUsdc,
+    bazaarToChargedUsdc,
+    drifted: [bazaarToStage1Usdc, stage1ToChargedUsdc, bazaarToChargedUsdc].some(d => d !== null && d !== 0),
+  };
+}
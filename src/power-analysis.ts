@@ -0,0 +1,224 @@
+/**
+ * Study Planner - Power analysis and sample size for matched-trial studies
+ *
+ * The study compares baseline and treatment burn rates with a paired t-test
+ * over matched trials, so the effect size that matters is Cohen's d_z: the
+ * mean paired difference divided by its standard deviation. It comes either
+ * from the user or from a pilot study's summary JSON (`exportSummaryJson`).
+ *
+ * Power uses the shifted central-t approximation to the noncentral t:
+ *   power ≈ P(T_{n-1} > t_crit − d_z√n) + P(T_{n-1} < −t_crit − d_z√n)
+ * which is slightly optimistic for very small n but close from n ≈ 5 up.
+ *
+ * Cost is trials × cycles × conditions × `estimateCycleCost`, plus the Zauth
+ * checks of the treatment conditions.
+ */
+
+import * as fs from "fs/promises";
+import Table from "cli-table3";
+import type { Network } from "./config.js";
+import { estimateCycleCost } from "./real-endpoints.js";
+import { mean, sampleStandardDeviation, studentTCdf, studentTQuantile } from "./statistics.js";
+
+const MIN_TRIALS = 2;
+const MAX_TRIALS = 10000;
+const CHECKS_PER_CYCLE = 3; // One Zauth check per category query
+
+export interface PilotEffect {
+  path: string;
+  effectSize: number;          // d_z of the paired burn-rate differences
+  meanDifference: number;      // Baseline minus treatment burn rate
+  stdDevDifference: number;
+  trials: number;
+  cyclesPerTrial: number;
+  conditionCount: number;
+  network: Network;
+  mockMode: boolean;
+  zauthCostPerCycle: number;   // Measured in the pilot's primary treatment
+}
+
+export interface StudyPlanOptions {
+  effectSize: number;
+  power: number;               // Target, e.g. 0.8
+  alpha: number;               // Two-sided, e.g. 0.05
+  cyclesPerTrial: number;
+  conditionCount: number;
+  network: Network;
+  zauthCostPerCycle: number;   // Per treatment cycle
+  pilot?: PilotEffect;
+}
+
+export interface StudyPlan extends StudyPlanOptions {
+  trials: number;              // Matched trials per condition
+  achievedPower: number;
+  totalCycles: number;
+  queryCostPerCycle: number;   // estimateCycleCost(network)
+  estimatedCostUsdc: number;
+  powerCurve: { trials: number; power: number }[];
+}
+
+/**
+ * Approximate power of a two-sided paired t-test with n pairs.
+ */
+export function pairedTPower(effectSize: number, trials: number, alpha: number): number {
+  if (trials < MIN_TRIALS) return 0;
+  const df = trials - 1;
+  const tCritical = studentTQuantile(1 - alpha / 2, df);
+  const shift = Math.abs(effectSize) * Math.sqrt(trials);
+  return 1 - studentTCdf(tCritical - shift, df) + studentTCdf(-tCritical - shift, df);
+}
+
+/**
+ * Smallest number of matched trials that reaches the target power.
+ */
+export function requiredTrials(effectSize: number, power: number, alpha: number): number {
+  if (!(Math.abs(effectSize) > 0)) {
+    throw new Error("Effect size must be non-zero to plan a study");
+  }
+  for (let n = MIN_TRIALS; n <= MAX_TRIALS; n++) {
+    if (pairedTPower(effectSize, n, alpha) >= power) {
+      return n;
+    }
+  }
+  throw new Error(`Effect size ${effectSize} needs more than ${MAX_TRIALS} trials for power ${power}`);
+}
+
+/**
+ * Read the paired effect size and design from a pilot study's summary JSON.
+ */
+export async function loadPilotEffect(pilotPath: string): Promise<PilotEffect> {
+  let data: any;
+  try {
+    data = JSON.parse(await fs.readFile(pilotPath, "utf-8"));
+  } catch (error) {
+    if ((error as any).code === "ENOENT") {
+      throw new Error(`Pilot results not found: ${pilotPath}`);
+    }
+    throw error;
+  }
+
+  const results = data.results;
+  const config = data.metadata?.config ?? {};
+  if (!Array.isArray(results?.noZauth?.trials) || !Array.isArray(results?.withZauth?.trials)) {
+    throw new Error(`Invalid pilot results: ${pilotPath} is not a study summary JSON`);
+  }
+
+  const baseline: number[] = results.noZauth.trials.map((t: any) => t.burnRate);
+  const treatment: number[] = results.withZauth.trials.map((t: any) => t.burnRate);
+  const pairs = Math.min(baseline.length, treatment.length);
+  if (pairs < 2) {
+    throw new Error(`Pilot has ${pairs} matched trial(s); at least 2 are needed to estimate variance`);
+  }
+
+  const differences = baseline.slice(0, pairs).map((rate, i) => rate - treatment[i]);
+  const meanDifference = mean(differences);
+  const stdDevDifference = sampleStandardDeviation(differences);
+  if (stdDevDifference === 0) {
+    throw new Error("Pilot burn-rate differences have no variance; run a pilot with more trials or cycles");
+  }
+
+  const cyclesPerTrial = config.cyclesPerTrial ?? results.noZauth.trials[0]?.metrics?.length ?? 50;
+  return {
+    path: pilotPath,
+    effectSize: meanDifference / stdDevDifference,
+    meanDifference,
+    stdDevDifference,
+    trials: pairs,
+    cyclesPerTrial,
+    conditionCount: Array.isArray(results.conditions) ? results.conditions.length : 2,
+    network: config.network ?? "base",
+    mockMode: config.mockMode ?? true,
+    zauthCostPerCycle: (results.withZauth.avgZauthCost ?? 0) / cyclesPerTrial,
+  };
+}
+
+/**
+ * Size a study for the target power and estimate what it would cost.
+ */
+export function planStudy(options: StudyPlanOptions): StudyPlan {
+  const trials = requiredTrials(options.effectSize, options.power, options.alpha);
+  const totalCycles = trials * options.cyclesPerTrial * options.conditionCount;
+  const queryCostPerCycle = estimateCycleCost(options.network);
+  const treatmentConditions = options.conditionCount - 1;
+  const estimatedCostUsdc =
+    totalCycles * queryCostPerCycle +
+    trials * options.cyclesPerTrial * treatmentConditions * options.zauthCostPerCycle;
+
+  const curveTrials = [...new Set([
+    Math.max(MIN_TRIALS, Math.round(trials / 2)),
+    Math.max(MIN_TRIALS, trials - 1),
+    trials,
+    Math.round(trials * 1.5),
+    trials * 2,
+  ])].sort((a, b) => a - b);
+
+  return {
+    ...options,
+    trials,
+    achievedPower: pairedTPower(options.effectSize, trials, options.alpha),
+    totalCycles,
+    queryCostPerCycle,
+    estimatedCostUsdc,
+    powerCurve: curveTrials.map((n) => ({ trials: n, power: pairedTPower(options.effectSize, n, options.alpha) })),
+  };
+}
+
+/**
+ * Zauth check cost per treatment cycle when no pilot measured it.
+ */
+export function defaultZauthCostPerCycle(zauthPriceUsdc: number): number {
+  return CHECKS_PER_CYCLE * zauthPriceUsdc;
+}
+
+export function printStudyPlan(plan: StudyPlan): void {
+  if (plan.pilot) {
+    const pilot = plan.pilot;
+    console.log(`Pilot: ${pilot.path}`);
+    console.log(
+      `  ${pilot.trials} matched trials × ${pilot.cyclesPerTrial} cycles (${pilot.mockMode ? "mock" : "real"}, ${pilot.network})`
+    );
+    console.log(
+      `  Burn-rate difference: ${(pilot.meanDifference * 100).toFixed(2)} ± ${(pilot.stdDevDifference * 100).toFixed(2)} pp ` +
+      `→ d_z = ${pilot.effectSize.toFixed(3)}`
+    );
+    console.log("");
+  }
+
+  const table = new Table({
+    head: ["Matched Trials", "Power", "Cycles (all conditions)", "Est. Cost (USDC)"],
+    colWidths: [16, 10, 25, 18],
+  });
+  const costPerTrial = plan.estimatedCostUsdc / plan.trials;
+  for (const point of plan.powerCurve) {
+    table.push([
+      `${point.trials}${point.trials === plan.trials ? " *" : ""}`,
+      `${(point.power * 100).toFixed(1)}%`,
+      (point.trials * plan.cyclesPerTrial * plan.conditionCount).toString(),
+      (point.trials * costPerTrial).toFixed(2),
+    ]);
+  }
+
+  console.log(
+    `Effect size d_z = ${plan.effectSize.toFixed(3)}, alpha = ${plan.alpha} (two-sided), target power = ${(plan.power * 100).toFixed(0)}%`
+  );
+  console.log(table.toString());
+  console.log("");
+  console.log(
+    `Required: ${plan.trials} matched trials per condition × ${plan.cyclesPerTrial} cycles × ${plan.conditionCount} conditions ` +
+    `(power ${(plan.achievedPower * 100).toFixed(1)}%)`
+  );
+  console.log(
+    `Estimated cost: $${plan.estimatedCostUsdc.toFixed(2)} USDC on ${plan.network.toUpperCase()} ` +
+    `($${plan.queryCostPerCycle.toFixed(4)}/cycle in queries + $${plan.zauthCostPerCycle.toFixed(4)}/treatment cycle in Zauth checks)`
+  );
+  if (plan.pilot && plan.pilot.cyclesPerTrial !== plan.cyclesPerTrial) {
+    console.log(
+      `Note: the pilot ran ${plan.pilot.cyclesPerTrial} cycles per trial. Per-trial variance changes with cycle count, ` +
+      `so d_z may not carry over to ${plan.cyclesPerTrial} cycles.`
+    );
+  }
+  console.log(
+    `\nRun it with: npx tsx src/index.ts --study --real --network=${plan.network} ` +
+    `--trials=${plan.trials} --cycles=${plan.cyclesPerTrial} --budget=${Math.ceil(plan.estimatedCostUsdc * 1.1 * 100) / 100}`
+  );
+}
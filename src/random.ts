@@ -0,0 +1,141 @@
+/**
+ * Seeded Random Streams
+ *
+ * Every random draw in a mock study comes from a named substream of one trial
+ * seed, so subsystems never share a sequence. A Zauth check draws from the
+ * Zauth stream; it cannot shift which x402 queries fail.
+ *
+ * Each substream is an independent xoshiro128** generator. Its 128-bit state
+ * is expanded with SplitMix32 from the seed and an FNV-1a hash of the stream
+ * name. Streams are fully determined by (seed, name): two conditions that
+ * open "outcomes:<url>" on the same trial seed get the same sequence.
+ *
+ * Stream names used by the study (see STREAMS and outcome-tape.ts):
+ * - outcomes:<url>  one draw per cycle: does the endpoint's paid call succeed
+ * - latency         simulated x402 network latency
+ * - zauth:<url>     mock Zauth health checks
+ * - failure-state:<url>  state changes of the endpoint's failure model (e.g. Markov bursts)
+ * - data:<url>:<n>  mock response body for cycle n of an endpoint
+ * - probe           mock 402-probe latency
+ * - resampling      bootstrap and permutation tests
+ */
+
+export interface RandomSource {
+  next(): number;  // Uniform in [0, 1)
+}
+
+export const STREAMS = {
+  outcomes: (url: string) => `outcomes:${url}`,
+  latency: "latency",
+  zauth: (url: string) => `zauth:${url}`,
+  failureState: (url: string) => `failure-state:${url}`,
+  data: (url: string, cycle: number) => `data:${url}:${cycle}`,
+  probe: "probe",
+  resampling: "resampling",
+} as const;
+
+function rotl(x: number, k: number): number {
+  return (x << k) | (x >>> (32 - k));
+}
+
+// FNV-1a over UTF-16 code units
+function hashName(name: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < name.length; i++) {
+    hash ^= name.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * xoshiro128** (Blackman & Vigna): 128-bit state, period 2^128 − 1, passes
+ * BigCrush. All arithmetic stays in 32-bit integers.
+ */
+export class Xoshiro128 implements RandomSource {
+  private s0: number;
+  private s1: number;
+  private s2: number;
+  private s3: number;
+
+  /**
+   * @param seed - Any finite number; values beyond 32 bits (e.g. Date.now()) keep their high bits
+   * @param name - Stream name mixed into the seed
+   */
+  constructor(seed: number, name: string = "") {
+    const low = seed >>> 0;
+    const high = Math.floor(Math.abs(seed) / 2 ** 32) >>> 0;
+
+    // SplitMix32 expands (seed, name) into four state words that are never all zero
+    let state = (low ^ Math.imul(high, 0x9e3779b9) ^ hashName(name)) | 0;
+    const splitMix = () => {
+      state = (state + 0x9e3779b9) | 0;
+      let z = state;
+      z = Math.imul(z ^ (z >>> 16), 0x21f0aafd);
+      z = Math.imul(z ^ (z >>> 15), 0x735a2d97);
+      return (z ^ (z >>> 15)) >>> 0;
+    };
+    this.s0 = splitMix();
+    this.s1 = splitMix();
+    this.s2 = splitMix();
+    this.s3 = splitMix();
+    if ((this.s0 | this.s1 | this.s2 | this.s3) === 0) this.s0 = 1;
+  }
+
+  nextUint32(): number {
+    const result = Math.imul(rotl(Math.imul(this.s1, 5), 7), 9) >>> 0;
+    const t = this.s1 << 9;
+
+    this.s2 ^= this.s0;
+    this.s3 ^= this.s1;
+    this.s1 ^= this.s2;
+    this.s0 ^= this.s3;
+    this.s2 ^= t;
+    this.s3 = rotl(this.s3, 11);
+
+    return result;
+  }
+
+  next(): number {
+    return this.nextUint32() / 2 ** 32;
+  }
+}
+
+export class RandomStreams {
+  readonly seed: number;
+  private readonly streams = new Map<string, Xoshiro128>();
+
+  constructor(seed: number) {
+    this.seed = seed;
+  }
+
+  /**
+   * The named substream. Repeated calls return the same generator, so draws
+   * continue where the last caller left off.
+   */
+  stream(name: string): RandomSource {
+    let stream = this.streams.get(name);
+    if (!stream) {
+      stream = new Xoshiro128(this.seed, name);
+      this.streams.set(name, stream);
+    }
+    return stream;
+  }
+
+  /**
+   * A fresh generator for `name`, starting from the beginning of its
+   * sequence. For one-off keyed draws (e.g. one response body).
+   */
+  fork(name: string): RandomSource {
+    return new Xoshiro128(this.seed, name);
+  }
+}
+
+/**
+ * Factory function to create the substreams for one seed.
+ * @param seed - Trial or study seed
+ * @returns RandomStreams instance
+ */
+export function createRandomStreams(seed: number): RandomStreams {
+  return new RandomStreams(seed);
+}
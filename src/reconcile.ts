@@ -0,0 +1,571 @@
+/**
+ * On-chain Burn Reconciliation
+ *
+ * Matches the payments recorded in a Stage 2 results folder against USDC
+ * Transfer events sent from the study wallet, so claimed spend and burn can be
+ * audited against chain data:
+ * - matched:    recorded payment with a USDC transfer on-chain
+ * - missing:    recorded payment with no transfer found
+ * - unexpected: USDC transfer from the wallet during the run that no recorded payment claims
+ *
+ * Uses plain JSON-RPC over fetch against the configured `baseRpcUrl` /
+ * `solanaRpcUrl`, so it also works against the facilitator simulator's /rpc stand-in.
+ */
+
+import type { Config, Network } from "./config.js";
+import type { PaymentOutcomeKind, SettlementReceipt } from "./types.js";
+import * as fs from "fs/promises";
+import * as path from "path";
+
+const BASE_USDC_ADDRESS = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const SOLANA_USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+const TRANSFER_EVENT_TOPIC = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+export interface RecordedPayment {
+  endpointName: string;
+  endpointUrl: string;
+  mode: "no-zauth" | "with-zauth" | "shadow-probe";
+  spentUsdc: number;
+  burnUsdc: number;
+  outcomeKind?: PaymentOutcomeKind;
+  transactionHash?: string;
+  amountAtomic: string;      // From the settlement receipt, else estimated from spent
+  payer?: string;
+  payTo?: string;
+  timestamp?: string;
+}
+
+export interface OnChainTransfer {
+  transactionHash: string;
+  from: string;
+  to: string;
+  amountAtomic: string;
+  amountUsdc: number;
+  blockNumber?: number;
+  blockTime?: number;        // Unix seconds (Solana only)
+}
+
+export interface PaymentMatch {
+  payment: RecordedPayment;
+  transfer?: OnChainTransfer;
+  matchedBy?: "transaction-hash" | "amount";
+  amountMismatch?: boolean;  // Transfer found but for a different amount than recorded
+}
+
+export interface ReconciliationReport {
+  stage2Path: string;
+  network: Network;
+  walletAddress: string;
+  rpcUrl: string;
+  generatedAt: string;
+  recordedPayments: number;
+  matched: PaymentMatch[];
+  missing: PaymentMatch[];
+  unexpected: OnChainTransfer[];
+  totals: {
+    recordedUsdc: number;
+    matchedUsdc: number;      // On-chain amount of matched transfers
+    missingUsdc: number;      // Recorded amount of missing payments
+    unexpectedUsdc: number;
+  };
+}
+
+export interface ReconcileOptions {
+  stage2Path: string;
+  config: Config;
+  network?: Network;         // Default: detected from the folder name
+  walletAddress?: string;    // Default: payer most often seen in settlement receipts
+  marginBlocks?: number;     // Base: blocks scanned around matched transfers (default: 150)
+  marginSeconds?: number;    // Seconds scanned around recorded payment times (default: 300)
+}
+
+/**
+ * Detect network from Stage 2 folder name
+ * Format: YYYY-MM-DDTHH-MM-SS_stage2_{network}
+ */
+export function detectNetworkFromStage2Path(stage2Path: string): Network {
+  const folderName = path.basename(path.resolve(stage2Path));
+
+  if (folderName.endsWith("_stage2_base")) {
+    return "base";
+  }
+  if (folderName.endsWith("_stage2_solana")) {
+    return "solana";
+  }
+
+  throw new Error(
+    `Cannot detect network from Stage 2 path: ${stage2Path}\n` +
+    `Expected folder name ending with '_stage2_base' or '_stage2_solana'`
+  );
+}
+
+/**
+ * Load every paid call recorded in a Stage 2 folder's endpoint-comparisons.json.
+ */
+export async function loadRecordedPayments(stage2Path: string): Promise<RecordedPayment[]> {
+  const comparisonsPath = path.join(stage2Path, "endpoint-comparisons.json");
+
+  let data: any;
+  try {
+    data = JSON.parse(await fs.readFile(comparisonsPath, "utf-8"));
+  } catch (error) {
+    if ((error as any).code === "ENOENT") {
+      throw new Error(`Stage 2 endpoint comparisons not found: ${comparisonsPath}`);
+    }
+    throw error;
+  }
+
+  if (!Array.isArray(data.comparisons)) {
+    throw new Error(`Invalid endpoint-comparisons.json format: missing 'comparisons' array`);
+  }
+
+  const payments: RecordedPayment[] = [];
+  for (const comparison of data.comparisons) {
+    for (const mode of ["no-zauth", "with-zauth", "shadow-probe"] as const) {
+      const query =
+        mode === "no-zauth" ? comparison.noZauth :
+        mode === "with-zauth" ? comparison.withZauth :
+        comparison.shadowProbe;
+      const receipt: SettlementReceipt | undefined = query?.receipt;
+      const endpointSpent = query?.spent ?? 0;
+
+      // Skipped calls only paid for the Zauth check; unpaid calls moved no funds
+      if (!query || query.skippedByZauth || (endpointSpent <= 0 && !receipt)) {
+        continue;
+      }
+
+      payments.push({
+        endpointName: comparison.endpoint?.name ?? "unknown",
+        endpointUrl: comparison.endpoint?.url ?? "unknown",
+        mode,
+        spentUsdc: endpointSpent,
+        burnUsdc: query.burn ?? 0,
+        outcomeKind: query.outcome?.kind,
+        transactionHash: receipt?.transactionHash ?? query.outcome?.transactionHash,
+        amountAtomic: receipt?.amountAtomic ?? String(Math.round(endpointSpent * 1_000_000)),
+        payer: receipt?.payer,
+        payTo: receipt?.payTo,
+        timestamp: receipt?.timestamp,
+      });
+    }
+  }
+
+  return payments;
+}
+
+/**
+ * Reconcile a Stage 2 folder against on-chain USDC transfers from the wallet.
+ */
+export async function reconcileStage2(options: ReconcileOptions): Promise<ReconciliationReport> {
+  const network = options.network ?? detectNetworkFromStage2Path(options.stage2Path);
+  const payments = await loadRecordedPayments(options.stage2Path);
+  const walletAddress = options.walletAddress ?? inferWalletAddress(options.stage2Path, payments);
+  const rpcUrl = network === "base" ? options.config.baseRpcUrl : options.config.solanaRpcUrl;
+
+  const source = network === "base"
+    ? createBaseTransferSource(rpcUrl, walletAddress, options)
+    : createSolanaTransferSource(rpcUrl, walletAddress, options);
+
+  // 1. Payments with a transaction hash: look the transaction up directly
+  const matched: PaymentMatch[] = [];
+  const unresolved: RecordedPayment[] = [];
+  const claimedHashes = new Set<string>();
+
+  for (const payment of payments) {
+    if (!payment.transactionHash) {
+      unresolved.push(payment);
+      continue;
+    }
+
+    const transfer = await source.getTransfer(payment.transactionHash);
+    if (!transfer) {
+      unresolved.push(payment);
+      continue;
+    }
+
+    claimedHashes.add(normalizeHash(transfer.transactionHash));
+    matched.push({
+      payment,
+      transfer,
+      matchedBy: "transaction-hash",
+      amountMismatch: transfer.amountAtomic !== payment.amountAtomic,
+    });
+  }
+
+  // 2. Scan the run window for wallet transfers nobody has claimed yet
+  const windowTransfers = await source.listTransfers(
+    matched.map(m => m.transfer!),
+    payments.map(p => p.timestamp).filter((t): t is string => t !== undefined)
+  );
+  const unclaimed = windowTransfers.filter(t => !claimedHashes.has(normalizeHash(t.transactionHash)));
+
+  // 3. Payments without a usable hash: pair with an unclaimed transfer of the same amount
+  const missing: PaymentMatch[] = [];
+  for (const payment of unresolved) {
+    const index = unclaimed.findIndex(t =>
+      t.amountAtomic === payment.amountAtomic &&
+      (!payment.payTo || t.to.toLowerCase() === payment.payTo.toLowerCase())
+    );
+
+    if (index >= 0) {
+      const [transfer] = unclaimed.splice(index, 1);
+      matched.push({ payment, transfer, matchedBy: "amount", amountMismatch: false });
+    } else {
+      missing.push({ payment });
+    }
+  }
+
+  return {
+    stage2Path: options.stage2Path,
+    network,
+    walletAddress,
+    rpcUrl,
+    generatedAt: new Date().toISOString(),
+    recordedPayments: payments.length,
+    matched,
+    missing,
+    unexpected: unclaimed,
+    totals: {
+      recordedUsdc: sum(payments.map(p => atomicToUsdc(p.amountAtomic))),
+      matchedUsdc: sum(matched.map(m => m.transfer!.amountUsdc)),
+      missingUsdc: sum(missing.map(m => atomicToUsdc(m.payment.amountAtomic))),
+      unexpectedUsdc: sum(unclaimed.map(t => t.amountUsdc)),
+    },
+  };
+}
+
+/**
+ * Generate the reconciliation report Markdown.
+ */
+export function generateReconciliationMarkdown(report: ReconciliationReport): string {
+  const sections: string[] = [];
+  const { totals } = report;
+
+  sections.push("# Stage 2: On-chain Burn Reconciliation");
+  sections.push("");
+  sections.push(`**Network:** ${report.network.toUpperCase()}`);
+  sections.push(`**Wallet:** ${report.walletAddress}`);
+  sections.push(`**RPC:** ${report.rpcUrl}`);
+  sections.push(`**Generated:** ${report.generatedAt}`);
+  sections.push("");
+  sections.push("## Summary");
+  sections.push("");
+  sections.push("| Result | Count | USDC |");
+  sections.push("|--------|-------|------|");
+  sections.push(`| Recorded payments | ${report.recordedPayments} | $${totals.recordedUsdc.toFixed(6)} |`);
+  sections.push(`| Matched | ${report.matched.length} | $${totals.matchedUsdc.toFixed(6)} |`);
+  sections.push(`| Missing | ${report.missing.length} | $${totals.missingUsdc.toFixed(6)} |`);
+  sections.push(`| Unexpected transfers | ${report.unexpected.length} | $${totals.unexpectedUsdc.toFixed(6)} |`);
+  sections.push("");
+
+  const mismatches = report.matched.filter(m => m.amountMismatch);
+  if (mismatches.length > 0) {
+    sections.push(`**Amount mismatches:** ${mismatches.length} matched transfer(s) moved a different amount than recorded.`);
+    sections.push("");
+  }
+
+  sections.push("## Matched Payments");
+  sections.push("");
+  if (report.matched.length === 0) {
+    sections.push("_None_");
+  } else {
+    sections.push("| Endpoint | Mode | Outcome | Recorded | On-chain | Matched By | Transaction |");
+    sections.push("|----------|------|---------|----------|----------|------------|-------------|");
+    for (const m of report.matched) {
+      sections.push(
+        `| ${m.payment.endpointName} | ${m.payment.mode} | ${m.payment.outcomeKind ?? "-"} | ` +
+        `$${atomicToUsdc(m.payment.amountAtomic).toFixed(6)} | $${m.transfer!.amountUsdc.toFixed(6)}${m.amountMismatch ? " ⚠" : ""} | ` +
+        `${m.matchedBy} | \`${m.transfer!.transactionHash}\` |`
+      );
+    }
+  }
+  sections.push("");
+
+  sections.push("## Missing Payments");
+  sections.push("");
+  sections.push("Recorded as paid, but no matching USDC transfer was found on-chain.");
+  sections.push("");
+  if (report.missing.length === 0) {
+    sections.push("_None_");
+  } else {
+    sections.push("| Endpoint | Mode | Outcome | Recorded | Transaction |");
+    sections.push("|----------|------|---------|----------|-------------|");
+    for (const m of report.missing) {
+      sections.push(
+        `| ${m.payment.endpointName} | ${m.payment.mode} | ${m.payment.outcomeKind ?? "-"} | ` +
+        `$${atomicToUsdc(m.payment.amountAtomic).toFixed(6)} | ${m.payment.transactionHash ? `\`${m.payment.transactionHash}\`` : "-"} |`
+      );
+    }
+  }
+  sections.push("");
+
+  sections.push("## Unexpected Transfers");
+  sections.push("");
+  sections.push("USDC sent from the wallet during the run that no recorded payment accounts for.");
+  sections.push("");
+  if (report.unexpected.length === 0) {
+    sections.push("_None_");
+  } else {
+    sections.push("| To | Amount | Transaction |");
+    sections.push("|----|--------|-------------|");
+    for (const t of report.unexpected) {
+      sections.push(`| ${t.to} | $${t.amountUsdc.toFixed(6)} | \`${t.transactionHash}\` |`);
+    }
+  }
+  sections.push("");
+
+  return sections.join("\n");
+}
+
+/**
+ * Write reconciliation.md and reconciliation.json next to the Stage 2 README.
+ */
+export async function writeReconciliationReport(
+  report: ReconciliationReport
+): Promise<{ markdownPath: string; jsonPath: string }> {
+  const markdownPath = path.join(report.stage2Path, "reconciliation.md");
+  const jsonPath = path.join(report.stage2Path, "reconciliation.json");
+
+  await fs.writeFile(markdownPath, generateReconciliationMarkdown(report), "utf-8");
+  await fs.writeFile(jsonPath, JSON.stringify(report, null, 2), "utf-8");
+
+  return { markdownPath, jsonPath };
+}
+
+// Chain access used by the matcher
+interface TransferSource {
+  getTransfer(transactionHash: string): Promise<OnChainTransfer | null>;
+  listTransfers(matchedTransfers: OnChainTransfer[], paymentTimestamps: string[]): Promise<OnChainTransfer[]>;
+}
+
+/**
+ * Base: USDC Transfer logs with the wallet as `from`.
+ */
+function createBaseTransferSource(
+  rpcUrl: string,
+  walletAddress: string,
+  options: ReconcileOptions
+): TransferSource {
+  const walletTopic = `0x${walletAddress.replace(/^0x/, "").toLowerCase().padStart(64, "0")}`;
+  const isWalletTransfer = (log: any) =>
+    log.address?.toLowerCase() === BASE_USDC_ADDRESS.toLowerCase() &&
+    log.topics?.[0]?.toLowerCase() === TRANSFER_EVENT_TOPIC &&
+    log.topics?.[1]?.toLowerCase() === walletTopic;
+
+  return {
+    async getTransfer(transactionHash) {
+      const receipt = await rpcCall(rpcUrl, "eth_getTransactionReceipt", [transactionHash]);
+      if (!receipt || receipt.status === "0x0") {
+        return null;
+      }
+      const logs = (receipt.logs ?? []).filter(isWalletTransfer);
+      return logs.length > 0 ? toEvmTransfer(logs[0], sumLogValues(logs)) : null;
+    },
+
+    async listTransfers(matchedTransfers, paymentTimestamps) {
+      const latest = Number(BigInt(await rpcCall(rpcUrl, "eth_blockNumber", [])));
+      const marginBlocks = options.marginBlocks ?? 150;
+      const marginSeconds = options.marginSeconds ?? 300;
+
+      // The run window: blocks of matched transfers, plus the blocks mined while payments were recorded
+      const ranges: [number, number][] = matchedTransfers
+        .map(t => t.blockNumber)
+        .filter((b): b is number => b !== undefined)
+        .map(b => [b - marginBlocks, b + marginBlocks]);
+
+      const times = paymentTimestamps.map(t => Math.floor(new Date(t).getTime() / 1000)).filter(Number.isFinite);
+      if (times.length > 0) {
+        const start = await firstBlockAtOrAfter(Math.min(...times) - marginSeconds, latest);
+        const end = await firstBlockAtOrAfter(Math.max(...times) + marginSeconds + 1, latest) - 1;
+        if (start <= end) {
+          ranges.push([start, end]);
+        }
+      }
+      // Without any anchor in time there is no run window to scan
+      if (ranges.length === 0) {
+        return [];
+      }
+
+      const fromBlock = Math.max(0, Math.min(...ranges.map(r => r[0])));
+      const toBlock = Math.min(latest, Math.max(...ranges.map(r => r[1])));
+
+      const logs: any[] = await rpcCall(rpcUrl, "eth_getLogs", [{
+        address: BASE_USDC_ADDRESS,
+        topics: [TRANSFER_EVENT_TOPIC, walletTopic],
+        fromBlock: `0x${fromBlock.toString(16)}`,
+        toBlock: `0x${toBlock.toString(16)}`,
+      }]);
+
+      return logs.filter(isWalletTransfer).map(log => toEvmTransfer(log, BigInt(log.data)));
+    },
+  };
+
+  /**
+   * Binary search for the first block mined at or after `time` (Unix seconds).
+   * Returns `latest + 1` when no block is that recent.
+   */
+  async function firstBlockAtOrAfter(time: number, latest: number): Promise<number> {
+    let low = 0;
+    let high = latest + 1;
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      const block = await rpcCall(rpcUrl, "eth_getBlockByNumber", [`0x${middle.toString(16)}`, false]);
+      if (block && Number(BigInt(block.timestamp)) >= time) {
+        high = middle;
+      } else {
+        low = middle + 1;
+      }
+    }
+    return low;
+  }
+}
+
+/**
+ * Solana: USDC token balance decreases for the wallet, read from transaction metadata.
+ */
+function createSolanaTransferSource(
+  rpcUrl: string,
+  walletAddress: string,
+  options: ReconcileOptions
+): TransferSource {
+  const getTransfer = async (signature: string): Promise<OnChainTransfer | null> => {
+    const tx = await rpcCall(rpcUrl, "getTransaction", [
+      signature,
+      { encoding: "jsonParsed", maxSupportedTransactionVersion: 0 },
+    ]);
+    if (!tx || tx.meta?.err) {
+      return null;
+    }
+
+    const deltas = new Map<string, bigint>();
+    for (const balance of tx.meta?.preTokenBalances ?? []) {
+      if (balance.mint === SOLANA_USDC_MINT) {
+        deltas.set(balance.owner, (deltas.get(balance.owner) ?? 0n) - BigInt(balance.uiTokenAmount.amount));
+      }
+    }
+    for (const balance of tx.meta?.postTokenBalances ?? []) {
+      if (balance.mint === SOLANA_USDC_MINT) {
+        deltas.set(balance.owner, (deltas.get(balance.owner) ?? 0n) + BigInt(balance.uiTokenAmount.amount));
+      }
+    }
+
+    const outflow = -(deltas.get(walletAddress) ?? 0n);
+    if (outflow <= 0n) {
+      return null;
+    }
+
+    const recipient = [...deltas.entries()].find(([owner, delta]) => owner !== walletAddress && delta > 0n);
+    return {
+      transactionHash: signature,
+      from: walletAddress,
+      to: recipient?.[0] ?? "unknown",
+      amountAtomic: outflow.toString(),
+      amountUsdc: Number(outflow) / 1_000_000,
+      blockNumber: tx.slot,
+      blockTime: tx.blockTime ?? undefined,
+    };
+  };
+
+  return {
+    getTransfer,
+
+    async listTransfers(matchedTransfers, paymentTimestamps) {
+      const times = [
+        ...matchedTransfers.map(t => t.blockTime).filter((t): t is number => t !== undefined),
+        ...paymentTimestamps.map(t => Math.floor(new Date(t).getTime() / 1000)),
+      ];
+      // Without any anchor in time there is no run window to scan
+      if (times.length === 0) {
+        return [];
+      }
+
+      const margin = options.marginSeconds ?? 300;
+      const start = Math.min(...times) - margin;
+      const end = Math.max(...times) + margin;
+
+      const signatures: any[] = await rpcCall(rpcUrl, "getSignaturesForAddress", [walletAddress, { limit: 1000 }]);
+      const inWindow = signatures.filter(s => !s.err && s.blockTime && s.blockTime >= start && s.blockTime <= end);
+
+      const transfers: OnChainTransfer[] = [];
+      for (const s of inWindow) {
+        const transfer = await getTransfer(s.signature);
+        if (transfer) {
+          transfers.push(transfer);
+        }
+      }
+      return transfers;
+    },
+  };
+}
+
+async function rpcCall(rpcUrl: string, method: string, params: unknown[]): Promise<any> {
+  const response = await fetch(rpcUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`RPC ${method} failed: HTTP ${response.status}`);
+  }
+
+  const data = await response.json() as { result?: unknown; error?: { message: string } };
+  if (data.error) {
+    throw new Error(`RPC ${method} failed: ${data.error.message}`);
+  }
+  return data.result;
+}
+
+function toEvmTransfer(log: any, value: bigint): OnChainTransfer {
+  return {
+    transactionHash: log.transactionHash,
+    from: topicToAddress(log.topics[1]),
+    to: topicToAddress(log.topics[2]),
+    amountAtomic: value.toString(),
+    amountUsdc: Number(value) / 1_000_000,
+    blockNumber: log.blockNumber !== undefined ? Number(BigInt(log.blockNumber)) : undefined,
+  };
+}
+
+function sumLogValues(logs: any[]): bigint {
+  return logs.reduce((total: bigint, log: any) => total + BigInt(log.data), 0n);
+}
+
+function topicToAddress(topic: string): string {
+  return `0x${topic.slice(-40)}`;
+}
+
+/**
+ * Pick the payer most often reported in settlement receipts.
+ */
+function inferWalletAddress(stage2Path: string, payments: RecordedPayment[]): string {
+  const counts = new Map<string, number>();
+  for (const payment of payments) {
+    if (payment.payer) {
+      counts.set(payment.payer, (counts.get(payment.payer) ?? 0) + 1);
+    }
+  }
+
+  const [mostCommon] = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  if (mostCommon) {
+    return mostCommon[0];
+  }
+
+  throw new Error(
+    `No wallet address given and none recorded in ${stage2Path}. ` +
+    `Set EVM_PRIVATE_KEY / SOLANA_PRIVATE_KEY or pass --wallet=<address>.`
+  );
+}
+
+function normalizeHash(hash: string): string {
+  return hash.startsWith("0x") ? hash.toLowerCase() : hash;
+}
+
+function atomicToUsdc(amountAtomic: string): number {
+  const value = Number(amountAtomic);
+  return Number.isFinite(value) ? value / 1_000_000 : 0;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, v) => total + v, 0);
+}
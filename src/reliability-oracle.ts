@@ -0,0 +1,371 @@
+/**
+ * Reliability Oracles
+ *
+ * A reliability oracle decides, before paying, whether an endpoint is worth
+ * querying. Zauth is one oracle among several; the study compares them side by
+ * side by naming them in `StudyConfig.conditions`.
+ *
+ * Built-ins (see `listOracles()`):
+ * - always-trust (alias: no-zauth): never skips, costs nothing — the baseline
+ * - zauth (alias: with-zauth): paid Zauth health check, cached for
+ *   `config.zauthCacheTtl` when set (see zauth-cache.ts); skips follow
+ *   `config.skipPolicy` (see skip-policy.ts)
+ * - local-history: skips endpoints whose observed success rate in this trial is
+ *   below the `config.skipPolicy` uptime cutoff, retrying one call after 5 skips
+ * - with-local-history: same rule, backed by the persistent reputation store
+ *   (`config.reputationFile`, or `outputDir` in real mode), so it remembers
+ *   endpoints across trials and runs. Mock studies keep a fresh in-memory store
+ *   per trial unless a file is given, so matched trials stay matched
+ * - 402-probe: free unpaid request via `testPrepayment`; skips endpoints that
+ *   are down before any payment is signed
+ */
+
+import type { Config, Endpoint, Network } from "./config.js";
+import type { PrepaymentTestResult } from "./types.js";
+import {
+  checkEndpointReliability,
+  createMockZauthClient,
+  type ZauthCheckResult,
+  type ZauthClient,
+} from "./zauth-client.js";
+import { testPrepayment } from "./prepayment-tester.js";
+import { STREAMS, type RandomStreams } from "./random.js";
+import type { TapePlayer } from "./outcome-tape.js";
+import { createZauthCheckCache, type CacheLookup, type ZauthCheckCache } from "./zauth-cache.js";
+import {
+  DEFAULT_RELIABILITY_THRESHOLD,
+  classifyEndpointCategory,
+  decideSkip,
+  type SkipDecision,
+  type SkipPolicyConfig,
+} from "./skip-policy.js";
+import {
+  createReputationStore,
+  getReputationFilePath,
+  type ReputationStore,
+} from "./reputation-store.js";
+
+export interface ReliabilityCheck {
+  checked: boolean;          // false when the oracle had nothing to go on
+  reliable: boolean;
+  score: number;             // 0-100
+  shouldSkip: boolean;
+  skipReason: string | null;
+  latencyMs: number;
+  error?: string;
+  cache?: CacheLookup;       // Set by caching oracles
+  costUsdc?: number;         // Actual cost of this check when it differs from costPerCheck
+  decision?: SkipDecision;   // Expected-value numbers behind shouldSkip, when a skip policy applied
+}
+
+export interface ReliabilityOracle {
+  readonly name: string;
+  readonly costPerCheck: number;  // USDC per check(); Zauth oracles track the last price actually paid
+  check(endpoint: Endpoint): Promise<ReliabilityCheck>;
+  // Optional feedback after a paid query, for oracles that learn from outcomes
+  recordOutcome?(endpoint: Endpoint, success: boolean, spentUsdc: number, latencyMs: number): void;
+  // Optional flush at the end of a trial (e.g. persist learned history)
+  close?(): void | Promise<void>;
+}
+
+// What a factory gets to build an oracle for one trial
+export interface OracleContext {
+  config: Config;
+  streams: RandomStreams;                  // Trial seed's substreams (see random.ts)
+  tape: TapePlayer | null;                 // Trial's outcome tape in mock mode (see outcome-tape.ts)
+  mockMode: boolean;
+  network: Network;
+  sharedZauthClient?: ZauthClient | null;  // Real Zauth client reused across trials
+}
+
+export type OracleFactory = (context: OracleContext) => ReliabilityOracle;
+
+// Listed Zauth price, used until a real check reports what it signed
+const ZAUTH_COST_PER_CHECK = 0.001;
+
+const registry = new Map<string, OracleFactory>();
+
+/**
+ * Register an oracle factory under a condition name. Replaces any existing entry.
+ */
+export function registerOracle(name: string, factory: OracleFactory): void {
+  registry.set(name, factory);
+}
+
+/**
+ * Build the oracle registered under `name` for one trial.
+ */
+export function createOracle(name: string, context: OracleContext): ReliabilityOracle {
+  const factory = registry.get(name);
+  if (!factory) {
+    throw new Error(
+      `Unknown reliability oracle: ${name}. Available: ${listOracles().join(", ")}`
+    );
+  }
+  return factory(context);
+}
+
+/**
+ * Names of all registered oracles, in registration order.
+ */
+export function listOracles(): string[] {
+  return [...registry.keys()];
+}
+
+/**
+ * Baseline oracle: trusts every endpoint.
+ */
+export function createAlwaysTrustOracle(name: string = "always-trust"): ReliabilityOracle {
+  return {
+    name,
+    costPerCheck: 0,
+    async check() {
+      return { checked: false, reliable: true, score: 100, shouldSkip: false, skipReason: null, latencyMs: 0 };
+    },
+  };
+}
+
+/**
+ * Zauth health-check oracle. Each check is charged what the client reports it
+ * paid; `costPerCheck` follows the last price paid. With a `cache`, fresh cache
+ * hits cost nothing; misses and stale hits (which trigger a revalidation) pay
+ * for a check. With a `policy`, the skip decision is re-made from the reported
+ * uptime and recorded on the check.
+ */
+export function createZauthOracle(
+  client: ZauthClient,
+  options: { name?: string; costPerCheck?: number; cache?: ZauthCheckCache; policy?: SkipPolicyConfig } = {}
+): ReliabilityOracle {
+  let costPerCheck = options.costPerCheck ?? ZAUTH_COST_PER_CHECK;
+  const cache = options.cache;
+  const policy = options.policy;
+
+  const applyPolicy = (endpoint: Endpoint, check: ZauthCheckResult & ReliabilityCheck): ReliabilityCheck => {
+    if (!policy || !check.checked || !check.response) {
+      return check;
+    }
+    const decision = decideSkip(
+      policy,
+      endpoint,
+      check.response.uptime / 100,
+      check.response.working,
+      check.costUsdc ?? costPerCheck
+    );
+    return { ...check, shouldSkip: decision.skip, skipReason: decision.reason, decision };
+  };
+
+  const paidCheck = async (endpoint: Endpoint) => {
+    const result = await checkEndpointReliability(client, endpoint);
+    if (result.costUsdc !== undefined && result.costUsdc > 0) {
+      costPerCheck = result.costUsdc;
+    }
+    return result;
+  };
+
+  return {
+    name: options.name ?? "zauth",
+    get costPerCheck() {
+      return costPerCheck;
+    },
+
+    async check(endpoint) {
+      if (!cache) {
+        const result = await paidCheck(endpoint);
+        return applyPolicy(endpoint, { ...result, costUsdc: result.costUsdc ?? costPerCheck });
+      }
+      const { result, lookup } = await cache.get(endpoint, paidCheck);
+      const costUsdc = lookup === "hit" ? 0 : lookup === "stale" ? costPerCheck : result.costUsdc ?? costPerCheck;
+      return applyPolicy(endpoint, { ...result, cache: lookup, costUsdc });
+    },
+
+    async close() {
+      await cache?.settle();
+    },
+  };
+}
+
+/**
+ * Zauth check cache for one trial, or undefined when `zauthCacheTtl` is 0.
+ * Mock trials age entries in tape time.
+ */
+function createTrialZauthCache(context: OracleContext): ZauthCheckCache | undefined {
+  const config = context.config;
+  if (!config.zauthCacheTtl || config.zauthCacheTtl <= 0) {
+    return undefined;
+  }
+  return createZauthCheckCache({ ttlMs: config.zauthCacheTtl, staleTtlMs: config.zauthStaleTtl, now: tapeClock(context) });
+}
+
+/**
+ * Local-history oracle: skips an endpoint once it has at least `minSamples`
+ * observed queries and a success rate below its category's `minUptime` in
+ * `policy` (default 70%). Free; learns only from `recordOutcome`, so every
+ * endpoint is trusted until it has been tried.
+ *
+ * A skipped endpoint produces no new observations, so after `retryAfterSkips`
+ * skips in a row one call is let through to see whether it has recovered.
+ * Uses an in-memory store unless a persistent `store` is given.
+ */
+export function createLocalHistoryOracle(
+  options: {
+    name?: string;
+    policy?: SkipPolicyConfig;
+    minSamples?: number;
+    retryAfterSkips?: number;
+    store?: ReputationStore;
+  } = {}
+): ReliabilityOracle {
+  const minSamples = options.minSamples ?? 3;
+  const retryAfterSkips = options.retryAfterSkips ?? 5;
+  const store = options.store ?? createReputationStore();
+  const skipsInARow: Map<string, number> = new Map();
+
+  const thresholdFor = (endpoint: Endpoint) =>
+    options.policy?.categories[classifyEndpointCategory(endpoint)].minUptime ?? DEFAULT_RELIABILITY_THRESHOLD;
+
+  return {
+    name: options.name ?? "local-history",
+    costPerCheck: 0,
+
+    async check(endpoint) {
+      const stats = store.getStats(endpoint.url);
+      if (!stats || stats.attempts < minSamples) {
+        return { checked: false, reliable: true, score: 100, shouldSkip: false, skipReason: null, latencyMs: 0 };
+      }
+
+      const threshold = thresholdFor(endpoint);
+      const reliable = stats.successRate >= threshold;
+      const skips = reliable ? 0 : (skipsInARow.get(endpoint.url) ?? 0) + 1;
+      const retry = skips > retryAfterSkips;
+      skipsInARow.set(endpoint.url, retry ? 0 : skips);
+      return {
+        checked: true,
+        reliable,
+        score: stats.successRate * 100,
+        shouldSkip: !reliable && !retry,
+        skipReason: reliable || retry
+          ? null
+          : `Local success rate: ${(stats.successRate * 100).toFixed(1)}% < ${threshold * 100}% ` +
+            `(${stats.attempts} queries, last failure ${stats.lastFailureAt})`,
+        latencyMs: 0,
+      };
+    },
+
+    recordOutcome(endpoint, success, spentUsdc, latencyMs) {
+      store.record(endpoint.url, {
+        success,
+        spentUsdc,
+        burnUsdc: success ? 0 : spentUsdc,
+        latencyMs,
+      });
+    },
+
+    close() {
+      store.save();
+    },
+  };
+}
+
+/**
+ * 402-probe oracle: sends the unpaid request and skips endpoints that do not
+ * answer with 402 or 2xx. Catches endpoints that are down before any payment,
+ * but not endpoints that fail after payment.
+ */
+export function create402ProbeOracle(
+  options: {
+    name?: string;
+    timeoutMs?: number;
+    probe?: (url: string, timeoutMs: number) => Promise<PrepaymentTestResult>;
+  } = {}
+): ReliabilityOracle {
+  const timeoutMs = options.timeoutMs ?? 5000;
+  const probe = options.probe ?? testPrepayment;
+
+  return {
+    name: options.name ?? "402-probe",
+    costPerCheck: 0,
+
+    async check(endpoint) {
+      const startTime = Date.now();
+      const result = await probe(endpoint.url, timeoutMs);
+      const latencyMs = Date.now() - startTime;
+
+      const reachable = result.status > 0 && !result.error;
+      const healthy = reachable && (result.requires402 || (result.status >= 200 && result.status < 300));
+
+      let skipReason: string | null = null;
+      if (!reachable) {
+        skipReason = `Probe failed: ${result.error ?? "no response"}`;
+      } else if (!healthy) {
+        skipReason = `Probe returned HTTP ${result.status}`;
+      }
+
+      return {
+        checked: true,
+        reliable: healthy,
+        score: healthy ? 100 : 0,
+        shouldSkip: !healthy,
+        skipReason,
+        latencyMs,
+        error: result.error,
+      };
+    },
+  };
+}
+
+/**
+ * The trial's tape time in mock mode, so anything that ages is timed in
+ * simulated rather than wall-clock ms. Undefined (wall clock) without a tape.
+ */
+function tapeClock(context: OracleContext): (() => number) | undefined {
+  const tape = context.tape;
+  return tape ? () => tape.now() : undefined;
+}
+
+/**
+ * Mock probe for mock studies. Mock endpoints only fail after payment, so the
+ * unpaid request always gets a 402 and the probe never skips.
+ */
+function createMockProbe(streams: RandomStreams) {
+  const latency = streams.stream(STREAMS.probe);
+  return async (url: string): Promise<PrepaymentTestResult> => {
+    await new Promise((resolve) => setTimeout(resolve, 20 + latency.next() * 30));
+    return { url, requires402: true, status: 402, headers: {} };
+  };
+}
+
+// Built-in oracles. The no-zauth / with-zauth aliases keep the original two-condition study working.
+registerOracle("always-trust", () => createAlwaysTrustOracle());
+registerOracle("no-zauth", () => createAlwaysTrustOracle("no-zauth"));
+registerOracle("zauth", (ctx) =>
+  createZauthOracle(ctx.sharedZauthClient ?? createMockZauthClient(ctx.config, ctx.tape), {
+    costPerCheck: ctx.mockMode ? ctx.config.mockZauthPriceUsdc : undefined,
+    cache: createTrialZauthCache(ctx),
+    policy: ctx.config.skipPolicy,
+  })
+);
+registerOracle("with-zauth", (ctx) =>
+  createZauthOracle(ctx.sharedZauthClient ?? createMockZauthClient(ctx.config, ctx.tape), {
+    name: "with-zauth",
+    costPerCheck: ctx.mockMode ? ctx.config.mockZauthPriceUsdc : undefined,
+    cache: createTrialZauthCache(ctx),
+    policy: ctx.config.skipPolicy,
+  })
+);
+registerOracle("local-history", (ctx) =>
+  createLocalHistoryOracle({ policy: ctx.config.skipPolicy, store: createReputationStore({ now: tapeClock(ctx) }) })
+);
+registerOracle("with-local-history", (ctx) =>
+  createLocalHistoryOracle({
+    name: "with-local-history",
+    policy: ctx.config.skipPolicy,
+    store: createReputationStore({
+      filePath: ctx.config.reputationFile ??
+        (ctx.mockMode ? undefined : getReputationFilePath(ctx.config.outputDir, ctx.mockMode)),
+      now: tapeClock(ctx),
+    }),
+  })
+);
+registerOracle("402-probe", (ctx) =>
+  create402ProbeOracle(ctx.mockMode ? { probe: createMockProbe(ctx.streams) } : {})
+);
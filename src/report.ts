@@ -1,8 +1,20 @@
 import Table from "cli-table3";
 import * as fs from "fs";
 import * as path from "path";
-import type { StudyResults, StudyConfig } from "./types.js";
+import type {
+  StudyResults,
+  StudyConfig,
+  SweepResults,
+  SkipConfusionMatrix,
+  NamedConditionResults,
+  PairwiseComparison,
+  SequentialResults,
+  StoppingReason,
+} from "./types.js";
 import { interpretEffectSize } from "./statistics.js";
+import { PAYMENT_OUTCOME_KINDS, outcomeColumnName } from "./payment-outcome.js";
+import { DATA_CATEGORIES, type SkipDecision } from "./skip-policy.js";
+import { isPerfectMockZauth, mockZauthFlags, type MockZauthBehavior } from "./config.js";
 
 export interface ReportGenerator {
   printSummaryTable(results: StudyResults): void;
@@ -27,41 +39,40 @@ export function printSummaryTable(results: StudyResults): void {
       "Burn Rate (%)",
       "Net Savings (USDC)",
     ],
-    colWidths: [15, 10, 20, 20, 15, 20],
+    colWidths: [20, 10, 20, 20, 15, 20],
   });
 
-  const { noZauth, withZauth } = results;
-
-  // No-zauth row
+  // One row per condition; net savings are burn avoided relative to the baseline
+  const [baseline, ...others] = results.conditions;
   table.push([
-    "No Zauth",
-    noZauth.trials.length.toString(),
-    noZauth.avgTotalSpent.toFixed(4),
-    noZauth.avgTotalBurn.toFixed(4),
-    (noZauth.avgBurnRate * 100).toFixed(2),
+    baseline.name,
+    baseline.trials.length.toString(),
+    baseline.avgTotalSpent.toFixed(4),
+    baseline.avgTotalBurn.toFixed(4),
+    (baseline.avgBurnRate * 100).toFixed(2),
     "-",
   ]);
+  for (const condition of others) {
+    table.push([
+      condition.name,
+      condition.trials.length.toString(),
+      condition.avgTotalSpent.toFixed(4),
+      condition.avgTotalBurn.toFixed(4),
+      (condition.avgBurnRate * 100).toFixed(2),
+      (baseline.avgTotalBurn - condition.avgTotalBurn).toFixed(4),
+    ]);
+  }
 
-  // With-zauth row
-  const savings = noZauth.avgTotalBurn - withZauth.avgTotalBurn;
-  table.push([
-    "With Zauth",
-    withZauth.trials.length.toString(),
-    withZauth.avgTotalSpent.toFixed(4),
-    withZauth.avgTotalBurn.toFixed(4),
-    (withZauth.avgBurnRate * 100).toFixed(2),
-    savings.toFixed(4),
-  ]);
-
-  // Comparison row
+  // Comparison row (primary treatment)
+  const savings = results.noZauth.avgTotalBurn - results.withZauth.avgTotalBurn;
   const burnReduction = results.burnReductionPercent;
   table.push([
     {
       colSpan: 4,
-      content: "Burn Reduction",
+      content: `Burn Reduction (${results.conditions[1].name})`,
       hAlign: "right",
     },
-    `${burnReduction.toFixed(2)}%`,
+    formatReduction(burnReduction, 2),
     `${savings.toFixed(4)}`,
   ]);
 
@@ -69,36 +80,180 @@ export function printSummaryTable(results: StudyResults): void {
   console.log(table.toString());
 }
 
+/**
+ * Rows for the interval estimates of the effect, shared by the console table
+ * and the Markdown report: [metric, value, interpretation].
+ */
+function estimateRows(results: StudyResults): [string, string, string][] {
+  const reductionInterval = results.confidenceInterval95;
+  const difference = results.burnRateDifference;
+  const [diffLower, diffUpper] = difference.confidenceInterval95;
+  const trials = results.noZauth.trials.length;
+
+  const rows: [string, string, string][] = [
+    [
+      "95% Confidence Interval",
+      formatInterval(reductionInterval, "%"),
+      reductionInterval === null
+        ? "Undefined: the baseline had no burn to reduce"
+        : `Between ${reductionInterval[0].toFixed(1)}% and ${reductionInterval[1].toFixed(1)}% (delta method, ratio of means)`,
+    ],
+    [
+      "Burn Rate Difference",
+      `${difference.percentagePoints.toFixed(2)} pp`,
+      `Baseline minus treatment, 95% CI [${diffLower.toFixed(2)}, ${diffUpper.toFixed(2)}] pp`,
+    ],
+  ];
+  if (results.zeroBaselineTrials > 0) {
+    rows.push([
+      "Zero-Burn Baseline Trials",
+      `${results.zeroBaselineTrials} of ${trials}`,
+      "Per-trial reduction undefined; still counted in the ratio of means",
+    ]);
+  }
+  return rows;
+}
+
+const TEST_NAMES = { "paired-t": "paired t-test", wilcoxon: "Wilcoxon signed-rank" } as const;
+
+/**
+ * Rows for the non-parametric and resampling checks, shared by the console
+ * table and the Markdown report: [metric, value, interpretation].
+ */
+function robustnessRows(results: StudyResults): [string, string, string][] {
+  const tests = results.tests;
+  const normality = tests.normality;
+
+  return [
+    [
+      "Wilcoxon Signed-Rank",
+      `p = ${formatPValue(tests.wilcoxon.pValue)}`,
+      `W+ = ${tests.wilcoxon.statistic}, ${tests.wilcoxon.n} non-zero pairs (${tests.wilcoxon.method})`,
+    ],
+    [
+      "Permutation Test",
+      `p = ${formatPValue(tests.permutation.pValue)}`,
+      `Sign-flip test on the mean difference, ${tests.permutation.permutations} permutations (${tests.permutation.method})`,
+    ],
+    [
+      "Bootstrap 95% CI",
+      formatInterval(tests.bootstrap.interval, "%"),
+      tests.bootstrap.interval
+        ? "Percentile bootstrap of burn reduction over matched trial pairs" +
+          (tests.bootstrap.discarded > 0
+            ? ` (${tests.bootstrap.discarded} of ${tests.bootstrap.iterations} draws discarded: resampled baseline burned nothing)`
+            : "")
+        : `Undefined: ${tests.bootstrap.discarded} of ${tests.bootstrap.iterations} draws resampled a baseline that burned nothing`,
+    ],
+    [
+      "Normality (Shapiro-Wilk)",
+      normality ? `W = ${normality.statistic.toFixed(3)}, p = ${formatPValue(normality.pValue)}` : "n/a",
+      normality === null
+        ? "Not testable (fewer than 3 pairs or no variation); t-test assumed"
+        : tests.normalityViolated
+          ? "Violated: paired differences look non-normal, t-test p-value unreliable"
+          : "No evidence against normality of paired differences",
+    ],
+    [
+      "Test Used",
+      TEST_NAMES[tests.primary],
+      `Significance claims use p = ${formatPValue(tests.primaryPValue)}`,
+    ],
+  ];
+}
+
+const STOPPING_REASONS: Record<StoppingReason, string> = {
+  efficacy: "Stopped early: efficacy boundary crossed",
+  futility: "Stopped early: futility, conditional power too low",
+  completed: "Ran all planned trials",
+  budget: "Stopped: budget exhausted",
+  interrupted: "Stopped: interrupted",
+};
+
+/**
+ * Rows describing the sequential design and where it stopped, shared by the
+ * console table and the Markdown report: [metric, value, interpretation].
+ */
+function sequentialRows(sequential: SequentialResults): [string, string, string][] {
+  const design = sequential.design;
+  const lastLook = sequential.looks[sequential.looks.length - 1];
+  const finalBoundary = sequential.boundaryConstant;
+
+  return [
+    [
+      "Design",
+      `O'Brien-Fleming, alpha ${design.alpha}`,
+      `Stop when |z| >= ${finalBoundary.toFixed(3)} / sqrt(n / ${sequential.plannedTrials}); ` +
+      `${sequential.looks.length} look(s) from n = ${sequential.looks[0]?.trials ?? design.minTrials}`,
+    ],
+    [
+      "Futility Rule",
+      design.futilityPower > 0 ? `CP < ${(design.futilityPower * 100).toFixed(0)}%` : "off",
+      design.futilityPower > 0
+        ? "Non-binding: stop when conditional power under the current trend is below this"
+        : "No futility stopping",
+    ],
+    [
+      "Stopped At",
+      `${sequential.stoppedAtTrial}/${sequential.plannedTrials} trials`,
+      STOPPING_REASONS[sequential.reason],
+    ],
+    [
+      "Last Look",
+      lastLook ? `|z| = ${Math.abs(lastLook.zStatistic).toFixed(3)}` : "n/a",
+      lastLook
+        ? `Boundary |z| >= ${lastLook.efficacyBoundary.toFixed(3)} (nominal p < ${formatPValue(lastLook.nominalAlpha)}), ` +
+          `paired t p = ${formatPValue(lastLook.pValue)}`
+        : "Stopped before the first scheduled look",
+    ],
+    [
+      "Sequential Decision",
+      sequential.rejected ? "Significant" : "Not significant",
+      sequential.rejected
+        ? `Efficacy boundary crossed; overall type I error held at ${design.alpha}`
+        : "No look crossed the efficacy boundary",
+    ],
+  ];
+}
+
 export function printStatisticalAnalysis(results: StudyResults): void {
   const table = new Table({
     head: ["Metric", "Value", "Interpretation"],
-    colWidths: [25, 20, 50],
+    colWidths: [26, 26, 60],
   });
 
   // Burn reduction
   table.push([
     "Burn Reduction",
-    `${results.burnReductionPercent.toFixed(2)}%`,
-    `Zauth reduces burn by ${results.burnReductionPercent.toFixed(1)}% on average`,
+    formatReduction(results.burnReductionPercent, 2),
+    results.burnReductionPercent === null
+      ? "Undefined: the baseline had no burn to reduce"
+      : `Zauth reduces burn by ${results.burnReductionPercent.toFixed(1)}% on average`,
   ]);
 
-  // Confidence interval
-  const [ciLower, ciUpper] = results.confidenceInterval95;
-  table.push([
-    "95% Confidence Interval",
-    `[${ciLower.toFixed(2)}%, ${ciUpper.toFixed(2)}%]`,
-    `True reduction is between ${ciLower.toFixed(1)}% and ${ciUpper.toFixed(1)}% with 95% confidence`,
-  ]);
+  for (const row of estimateRows(results)) {
+    table.push(row);
+  }
 
   // P-value
-  const significant = results.pValue < 0.05;
+  const significant = results.tests.primaryPValue < 0.05;
   table.push([
-    "P-value",
-    results.pValue.toFixed(4),
-    significant
+    "P-value (paired t)",
+    formatPValue(results.pValue),
+    results.pValue < 0.05
       ? "Statistically significant (p < 0.05)"
       : "Not statistically significant (p >= 0.05)",
   ]);
+  for (const row of robustnessRows(results)) {
+    table.push(row);
+  }
+  if (results.tests.normalityViolated) {
+    table.push([
+      "Significance",
+      significant ? "Yes" : "No",
+      "Judged by the Wilcoxon signed-rank test because normality looks violated",
+    ]);
+  }
 
   // Effect size
   const effectInterpretation = interpretEffectSize(results.effectSize);
@@ -126,9 +281,234 @@ export function printStatisticalAnalysis(results: StudyResults): void {
   console.log(table.toString());
 }
 
+export function printPairwiseComparisons(pairwise: PairwiseComparison[]): void {
+  const table = new Table({
+    head: ["Comparison", "Reduction (%)", "Diff (pp)", "Test", "p", "Holm p", "Bonf. p", "Sig."],
+    colWidths: [38, 15, 11, 10, 10, 10, 10, 6],
+  });
+
+  for (const comparison of pairwise) {
+    table.push([
+      `${comparison.condition} vs ${comparison.reference}`,
+      formatReduction(comparison.burnReductionPercent, 2),
+      comparison.burnRateDifference.toFixed(2),
+      comparison.test,
+      formatPValue(comparison.pValue),
+      formatPValue(comparison.holmPValue),
+      formatPValue(comparison.bonferroniPValue),
+      comparison.significant ? "yes" : "no",
+    ]);
+  }
+
+  console.log(`\n=== Pairwise Comparisons (${pairwise.length}; significance uses Holm-adjusted p < 0.05) ===`);
+  console.log(table.toString());
+}
+
+export function printSequentialSummary(sequential: SequentialResults): void {
+  const table = new Table({
+    head: ["Metric", "Value", "Interpretation"],
+    colWidths: [26, 26, 60],
+    wordWrap: true,
+  });
+  for (const row of sequentialRows(sequential)) {
+    table.push(row);
+  }
+
+  console.log("\n=== Sequential Design ===");
+  console.log(table.toString());
+}
+
+export function printOracleComparison(results: StudyResults): void {
+  const table = new Table({
+    head: [
+      "Condition",
+      "Check Cost",
+      "Total Spent (USDC)",
+      "Total Burn (USDC)",
+      "Burn Rate (%)",
+      "vs Baseline (%)",
+    ],
+    colWidths: [18, 12, 20, 20, 15, 17],
+  });
+
+  const baseline = results.conditions[0];
+  for (const condition of results.conditions) {
+    const reduction = baseline.avgBurnRate > 0
+      ? ((baseline.avgBurnRate - condition.avgBurnRate) / baseline.avgBurnRate) * 100
+      : 0;
+    table.push([
+      condition.name,
+      `$${condition.costPerCheck.toFixed(4)}`,
+      condition.avgTotalSpent.toFixed(4),
+      condition.avgTotalBurn.toFixed(4),
+      (condition.avgBurnRate * 100).toFixed(2),
+      condition === baseline ? "baseline" : `${reduction.toFixed(2)}`,
+    ]);
+  }
+
+  console.log("\n=== Oracle Comparison ===");
+  console.log(table.toString());
+}
+
+/**
+ * Share of skips that threw away a working endpoint, and share of the data the
+ * agent could have had that it lost to those skips. NaN when nothing to score.
+ */
+function skipAccuracy(matrix: SkipConfusionMatrix): { falseSkipRate: number; lostDataShare: number } {
+  const scoredSkips = matrix.trueSkip + matrix.falseSkip;
+  const obtainable = matrix.truePass + matrix.falseSkip;
+  return {
+    falseSkipRate: scoredSkips > 0 ? matrix.falseSkip / scoredSkips : NaN,
+    lostDataShare: obtainable > 0 ? matrix.falseSkip / obtainable : NaN,
+  };
+}
+
+// Exact p-values underflow toFixed; show the floor instead of "0.0000"
+function formatPValue(pValue: number): string {
+  return pValue < 0.0001 ? "< 0.0001" : pValue.toFixed(4);
+}
+
+// "[lower, upper]" with a unit, or "n/a" for an undefined interval
+function formatInterval(interval: [number, number] | null, unit: string): string {
+  if (interval === null || Number.isNaN(interval[0])) return "n/a";
+  return `[${interval[0].toFixed(2)}${unit}, ${interval[1].toFixed(2)}${unit}]`;
+}
+
+function formatReduction(percent: number | null, digits: number): string {
+  return percent === null ? "n/a" : `${percent.toFixed(digits)}%`;
+}
+
+function formatPercent(value: number): string {
+  return Number.isNaN(value) ? "n/a" : `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Burn avoided relative to the baseline for each data point lost to a false skip.
+ */
+function burnAvoidedPerLostDataPoint(
+  baseline: NamedConditionResults,
+  condition: NamedConditionResults
+): number | null {
+  const falseSkips = condition.skipConfusion.falseSkip;
+  return falseSkips > 0 ? (baseline.avgTotalBurn - condition.avgTotalBurn) / falseSkips : null;
+}
+
+export function printSkipAccuracy(results: StudyResults): void {
+  const table = new Table({
+    head: [
+      "Condition",
+      "True Skip",
+      "False Skip",
+      "True Pass",
+      "False Pass",
+      "False-Skip Rate",
+      "Data Lost",
+    ],
+    colWidths: [18, 11, 12, 11, 12, 17, 11],
+  });
+
+  for (const condition of results.conditions) {
+    const matrix = condition.skipConfusion;
+    const { falseSkipRate, lostDataShare } = skipAccuracy(matrix);
+    table.push([
+      condition.name,
+      matrix.trueSkip.toFixed(1),
+      matrix.falseSkip.toFixed(1),
+      matrix.truePass.toFixed(1),
+      matrix.falsePass.toFixed(1),
+      formatPercent(falseSkipRate),
+      formatPercent(lostDataShare),
+    ]);
+  }
+
+  console.log("\n=== Skip Accuracy (per trial; false skips are lost data points) ===");
+  console.log(table.toString());
+}
+
+export function printZauthCacheSummary(results: StudyResults): void {
+  const cache = results.zauthCache;
+  const table = new Table({
+    head: ["Per Cycle", "Cached", "Uncached", "Change"],
+    colWidths: [25, 15, 15, 20],
+  });
+
+  table.push([
+    "Zauth checks",
+    cache.checksPerCycle.toFixed(2),
+    cache.checksPerCycle.toFixed(2),
+    `${cache.cacheHitsPerCycle.toFixed(2)} from cache`,
+  ]);
+  table.push([
+    "Zauth cost (USDC)",
+    cache.zauthCostPerCycle.toFixed(4),
+    cache.uncachedZauthCostPerCycle.toFixed(4),
+    (cache.zauthCostPerCycle - cache.uncachedZauthCostPerCycle).toFixed(4),
+  ]);
+  table.push([
+    "Net savings (USDC)",
+    cache.netSavingsPerCycle.toFixed(4),
+    cache.uncachedNetSavingsPerCycle.toFixed(4),
+    (cache.netSavingsPerCycle - cache.uncachedNetSavingsPerCycle).toFixed(4),
+  ]);
+
+  console.log(
+    `\n=== Zauth Check Cache (TTL ${cache.ttlMs / 1000}s, stale ${cache.staleTtlMs / 1000}s, ` +
+    `hit rate ${(cache.hitRate * 100).toFixed(1)}%) ===`
+  );
+  console.log(table.toString());
+}
+
+export function printSweepSummary(sweep: SweepResults): void {
+  const table = new Table({
+    head: [
+      "Threshold",
+      "Burn Rate (%)",
+      "Zauth Cost/Cycle",
+      "Net Savings/Cycle",
+      "Skipped/Trial",
+      "Would Succeed",
+      "Alloc. Agree (%)",
+    ],
+    colWidths: [11, 15, 18, 19, 15, 15, 18],
+  });
+
+  for (const level of sweep.levels) {
+    table.push([
+      `${level.value.toFixed(2)}${level.value === sweep.peakValue ? " *" : ""}`,
+      (level.burnRate * 100).toFixed(2),
+      level.zauthCostPerCycle.toFixed(4),
+      level.netSavingsPerCycle.toFixed(4),
+      level.queriesSkippedPerTrial.toFixed(1),
+      level.skippedWouldSucceedPerTrial.toFixed(1),
+      (level.allocationAgreement * 100).toFixed(1),
+    ]);
+  }
+
+  console.log(`\n=== Threshold Sweep (${sweep.treatment} vs ${sweep.baseline}; * = peak net savings) ===`);
+  console.log(table.toString());
+}
+
 export function printFullReport(results: StudyResults): void {
   printSummaryTable(results);
+  if (results.conditions.length > 2) {
+    printOracleComparison(results);
+  }
+  if (results.pairwise) {
+    printPairwiseComparisons(results.pairwise);
+  }
   printStatisticalAnalysis(results);
+  if (results.sequential) {
+    printSequentialSummary(results.sequential);
+  }
+  if (results.conditions.some((c) => c.avgQueriesSkipped > 0)) {
+    printSkipAccuracy(results);
+  }
+  if (results.zauthCache.ttlMs > 0) {
+    printZauthCacheSummary(results);
+  }
+  if (results.sweep) {
+    printSweepSummary(results.sweep);
+  }
   console.log("");
 }
 
@@ -168,16 +548,24 @@ export function exportRawDataCsv(
     "cycle",
     "spentUsdc",
     "burnUsdc",
+    ...PAYMENT_OUTCOME_KINDS.map(outcomeColumnName),
     "zauthCostUsdc",
+    "reliabilityChecks",
+    "cacheHits",
     "queriesAttempted",
     "queriesFailed",
+    "queriesSkipped",
+    "skippedWouldSucceed",
+    "skippedWouldFail",
     "latencyMs",
+    "allocation",
   ];
 
   const rows: string[] = [headers.join(",")];
 
   // Add metadata as comments
   rows.unshift(`# Timestamp: ${metadata.timestamp}`);
+  rows.unshift(`# Conditions: ${config.conditions.join(" ")}`);
   rows.unshift(`# Trials per condition: ${config.trialsPerCondition}`);
   rows.unshift(`# Cycles per trial: ${config.cyclesPerTrial}`);
   rows.unshift(`# Base seed: ${config.baseSeed}`);
@@ -188,48 +576,110 @@ export function exportRawDataCsv(
   rows.unshift("# Scientific Study Raw Data");
   rows.push(""); // Blank line after metadata
 
-  // No-zauth data
-  results.noZauth.trials.forEach((trial, trialIdx) => {
-    trial.metrics.forEach((cycle, cycleIdx) => {
-      rows.push(
-        [
-          "no-zauth",
-          trialIdx,
-          cycleIdx,
-          cycle.spentUsdc,
-          cycle.burnUsdc,
-          cycle.zauthCostUsdc,
-          cycle.queriesAttempted,
-          cycle.queriesFailed,
-          cycle.latencyMs,
-        ].join(",")
-      );
+  // One block of rows per condition
+  for (const condition of results.conditions) {
+    condition.trials.forEach((trial, trialIdx) => {
+      trial.metrics.forEach((cycle, cycleIdx) => {
+        rows.push(
+          [
+            condition.name,
+            trialIdx,
+            cycleIdx,
+            cycle.spentUsdc,
+            cycle.burnUsdc,
+            ...PAYMENT_OUTCOME_KINDS.map((kind) => cycle.burnByOutcome[kind]),
+            cycle.zauthCostUsdc,
+            cycle.reliabilityChecks,
+            cycle.cacheHits,
+            cycle.queriesAttempted,
+            cycle.queriesFailed,
+            cycle.queriesSkipped,
+            cycle.skippedWouldSucceed,
+            cycle.skippedWouldFail,
+            cycle.latencyMs,
+            cycle.allocation,
+          ].join(",")
+        );
+      });
     });
-  });
-
-  // With-zauth data
-  results.withZauth.trials.forEach((trial, trialIdx) => {
-    trial.metrics.forEach((cycle, cycleIdx) => {
-      rows.push(
-        [
-          "with-zauth",
-          trialIdx,
-          cycleIdx,
-          cycle.spentUsdc,
-          cycle.burnUsdc,
-          cycle.zauthCostUsdc,
-          cycle.queriesAttempted,
-          cycle.queriesFailed,
-          cycle.latencyMs,
-        ].join(",")
-      );
-    });
-  });
+  }
 
   fs.writeFileSync(outputPath, rows.join("\n"));
   console.log(`Raw data exported to: ${outputPath}`);
 }
 
+export function exportSweepCsv(
+  sweep: SweepResults,
+  outputPath: string,
+  config: StudyConfig
+): void {
+  ensureDirectoryExists(outputPath);
+
+  const rows: string[] = [
+    "# Threshold Sweep",
+    `# Treatment: ${sweep.treatment}`,
+    `# Baseline: ${sweep.baseline}`,
+    `# Trials per level: ${config.trialsPerCondition}`,
+    `# Cycles per trial: ${config.cyclesPerTrial}`,
+    `# Base seed: ${config.baseSeed}`,
+    `# Peak net savings at: ${sweep.peakValue ?? "n/a"}`,
+    "",
+    [
+      "parameter",
+      "value",
+      "condition",
+      "trials",
+      "burnRate",
+      "burnRateStdDev",
+      "zauthCostPerCycle",
+      "burnSavingsPerCycle",
+      "netSavingsPerCycle",
+      "queriesSkippedPerTrial",
+      "skippedWouldSucceedPerTrial",
+      "allocationAgreement",
+    ].join(","),
+  ];
+
+  for (const level of sweep.levels) {
+    rows.push(
+      [
+        sweep.parameter,
+        level.value,
+        level.condition,
+        level.trials,
+        level.burnRate,
+        level.burnRateStdDev,
+        level.zauthCostPerCycle,
+        level.burnSavingsPerCycle,
+        level.netSavingsPerCycle,
+        level.queriesSkippedPerTrial,
+        level.skippedWouldSucceedPerTrial,
+        level.allocationAgreement,
+      ].join(",")
+    );
+  }
+
+  fs.writeFileSync(outputPath, rows.join("\n"));
+  console.log(`Sweep data exported to: ${outputPath}`);
+}
+
+export function exportSweepJson(
+  sweep: SweepResults,
+  outputPath: string,
+  config: StudyConfig
+): void {
+  ensureDirectoryExists(outputPath);
+
+  const metadata: ExportMetadata = {
+    timestamp: new Date().toISOString(),
+    config,
+    gitCommitHash: getGitCommitHash(),
+  };
+
+  fs.writeFileSync(outputPath, JSON.stringify({ metadata, sweep }, null, 2));
+  console.log(`Sweep JSON exported to: ${outputPath}`);
+}
+
 export function exportSummaryJson(
   results: StudyResults,
   outputPath: string,
@@ -252,6 +702,22 @@ export function exportSummaryJson(
   console.log(`Summary JSON exported to: ${outputPath}`);
 }
 
+/**
+ * One-line summary of how the mock Zauth's uptime departs from the truth.
+ */
+function describeMockZauth(behavior: MockZauthBehavior): string {
+  if (isPerfectMockZauth(behavior)) {
+    return "reports each endpoint's true current uptime";
+  }
+  return [
+    `uptime ${behavior.lagCycles} cycle(s) behind`,
+    `averaged over ${behavior.windowCycles} cycle(s)`,
+    `noise σ ${behavior.noiseStdDev}`,
+    `${(behavior.staleProbability * 100).toFixed(0)}% stale checks (${behavior.staleAgeCycles} more cycle(s) behind)`,
+    `${(behavior.coverage * 100).toFixed(0)}% endpoint coverage`,
+  ].join(", ");
+}
+
 export function generateMarkdownReport(
   results: StudyResults,
   outputPath: string,
@@ -278,32 +744,59 @@ export function generateMarkdownReport(
   sections.push("## Executive Summary");
   sections.push("");
   const burnReduction = results.burnReductionPercent;
-  const [ciLower, ciUpper] = results.confidenceInterval95;
-  const significant = results.pValue < 0.05;
+  const primaryPValue = results.tests.primaryPValue;
+  const sequential = results.sequential;
+  const significant = sequential ? sequential.rejected : primaryPValue < 0.05;
+  const trialsRun = results.noZauth.trials.length;
+  const testUsed = TEST_NAMES[results.tests.primary];
   const effectInterpretation = interpretEffectSize(results.effectSize);
 
   sections.push(
     `This study measured the cost savings (\"burn reduction\") achieved by using Zauth x402 endpoint verification ` +
-    `in a realistic DeFi yield optimization workflow. Over ${config.trialsPerCondition} trials per condition, ` +
+    `in a realistic DeFi yield optimization workflow. Over ${trialsRun} trials per condition, ` +
     `with ${config.cyclesPerTrial} optimization cycles per trial, we found that:`
   );
   sections.push("");
-  sections.push(`- **Burn reduction:** ${burnReduction.toFixed(2)}% (95% CI: [${ciLower.toFixed(2)}%, ${ciUpper.toFixed(2)}%])`);
-  sections.push(`- **Statistical significance:** ${significant ? "Yes" : "No"} (p = ${results.pValue.toFixed(4)})`);
+  sections.push(`- **Burn reduction:** ${formatReduction(burnReduction, 2)} (95% CI: ${formatInterval(results.confidenceInterval95, "%")})`);
+  const [diffLower, diffUpper] = results.burnRateDifference.confidenceInterval95;
+  sections.push(
+    `- **Burn rate difference:** ${results.burnRateDifference.percentagePoints.toFixed(2)} percentage points ` +
+    `(95% CI: [${diffLower.toFixed(2)}, ${diffUpper.toFixed(2)}])`
+  );
+  if (sequential) {
+    const lastLook = sequential.looks[sequential.looks.length - 1];
+    sections.push(
+      `- **Statistical significance:** ${significant ? "Yes" : "No"} (O'Brien-Fleming sequential boundary on the paired t-test` +
+      (lastLook
+        ? `, |z| = ${Math.abs(lastLook.zStatistic).toFixed(3)} vs ${lastLook.efficacyBoundary.toFixed(3)} at trial ${lastLook.trials})`
+        : ")")
+    );
+    sections.push(
+      `- **Stopping:** ${STOPPING_REASONS[sequential.reason]} after ${sequential.stoppedAtTrial} of ${sequential.plannedTrials} planned trials`
+    );
+  } else {
+    sections.push(`- **Statistical significance:** ${significant ? "Yes" : "No"} (${testUsed}, p ${primaryPValue < 0.0001 ? "" : "= "}${formatPValue(primaryPValue)})`);
+  }
+  if (results.tests.normalityViolated) {
+    sections.push(
+      `- **Normality:** violated (Shapiro-Wilk p = ${formatPValue(results.tests.normality!.pValue)}), ` +
+      `so significance uses the Wilcoxon signed-rank test instead of the paired t-test (p = ${formatPValue(results.pValue)})`
+    );
+  }
   sections.push(`- **Effect size:** ${effectInterpretation} (Cohen's d = ${results.effectSize.toFixed(3)})`);
   sections.push(`- **Net savings per cycle:** $${results.netSavingsPerCycle.toFixed(4)} USDC`);
   sections.push("");
 
-  if (significant && burnReduction > 0) {
+  if (significant && burnReduction !== null && burnReduction > 0) {
     sections.push(
       `**Conclusion:** Zauth x402 verification provides statistically significant cost savings by preventing ` +
       `payments to unreliable endpoints. The ${effectInterpretation} effect size indicates this is a ` +
       `${effectInterpretation === "large" ? "substantial" : "meaningful"} real-world benefit.`
     );
-  } else if (burnReduction > 0) {
+  } else if (burnReduction !== null && burnReduction > 0) {
     sections.push(
       `**Conclusion:** While the data suggests a trend toward cost savings (${burnReduction.toFixed(1)}%), ` +
-      `the results did not reach statistical significance (p = ${results.pValue.toFixed(4)}). ` +
+      `the results did not reach statistical significance (${testUsed}, p = ${formatPValue(primaryPValue)}). ` +
       `A larger study may be needed to confirm these findings.`
     );
   } else {
@@ -438,7 +931,10 @@ export function generateMarkdownReport(
   sections.push("");
   sections.push("- Agent checks **Zauth reliability score** before each query:");
   sections.push("  - Queries Zauth API for endpoint uptime percentage");
-  sections.push("  - Cost: ~$0.001 USDC per Zauth check (10x cheaper than x402 query)");
+  sections.push(
+    `  - Cost: $${results.breakEven.zauthPricePerCheck.toFixed(4)} USDC per Zauth check ` +
+    `(${config.mockMode ? "mock price" : "price signed in the x402 payment"})`
+  );
   sections.push("- **Filtering rule:** Skip endpoints with <70% uptime");
   sections.push("  - Avoids wasting x402 payment on likely-failed endpoints");
   sections.push("  - Agent proceeds with partial data if endpoints are unreliable");
@@ -460,14 +956,28 @@ export function generateMarkdownReport(
 
   sections.push("### Study Design");
   sections.push("");
-  sections.push(`- **Trials per condition:** ${config.trialsPerCondition} (matched pairs)`);
+  sections.push(
+    sequential
+      ? `- **Trials per condition:** ${trialsRun} of ${config.trialsPerCondition} planned (matched pairs, sequential design)`
+      : `- **Trials per condition:** ${config.trialsPerCondition} (matched pairs)`
+  );
   sections.push(`- **Cycles per trial:** ${config.cyclesPerTrial} (optimization rounds)`);
-  sections.push(`- **Total data points:** ${config.trialsPerCondition * config.cyclesPerTrial * 2} cycles`);
+  sections.push(`- **Conditions:** ${config.conditions.join(", ")}`);
+  sections.push(`- **Total data points:** ${config.trialsPerCondition * config.cyclesPerTrial * config.conditions.length} cycles`);
   sections.push(`- **Randomization:** Fixed random seed for reproducibility`);
   sections.push(`- **Payment mode:** ${config.mockMode ? "Mock (simulated x402 payments)" : "Real x402 payments on " + network.toUpperCase()}`);
+  if (config.mockMode && config.scenario) {
+    sections.push(
+      `- **Scenario:** ${config.scenario.name} (${config.scenario.endpoints.length} endpoints)` +
+      (config.scenario.description ? `: ${config.scenario.description}` : "")
+    );
+  }
+  if (config.mockMode && config.mockZauth) {
+    sections.push(`- **Mock Zauth:** ${describeMockZauth(config.mockZauth)}`);
+  }
   sections.push(`- **Endpoint queries:** 3 per cycle (pool + whale + sentiment)`);
-  const totalQueries = config.trialsPerCondition * config.cyclesPerTrial * 3 * 2;
-  sections.push(`- **Total queries:** ${totalQueries} x402 API calls across both conditions`);
+  const totalQueries = config.trialsPerCondition * config.cyclesPerTrial * 3 * config.conditions.length;
+  sections.push(`- **Total queries:** ${totalQueries} x402 API calls across all conditions`);
   if (metadata.gitCommitHash) {
     sections.push(`- **Code version:** \`${metadata.gitCommitHash}\``);
   }
@@ -481,43 +991,91 @@ export function generateMarkdownReport(
   sections.push("");
   sections.push("| Condition | Trials | Avg Total Spent (USDC) | Avg Total Burn (USDC) | Burn Rate | Net Savings (USDC) |");
   sections.push("|-----------|--------|------------------------|------------------------|-----------|---------------------|");
-  sections.push(
-    `| No Zauth | ${results.noZauth.trials.length} | ` +
-    `${results.noZauth.avgTotalSpent.toFixed(4)} | ` +
-    `${results.noZauth.avgTotalBurn.toFixed(4)} | ` +
-    `${(results.noZauth.avgBurnRate * 100).toFixed(2)}% | ` +
-    `- |`
-  );
+  for (const condition of results.conditions) {
+    const isBaseline = condition === results.conditions[0];
+    sections.push(
+      `| ${condition.name} | ${condition.trials.length} | ` +
+      `${condition.avgTotalSpent.toFixed(4)} | ` +
+      `${condition.avgTotalBurn.toFixed(4)} | ` +
+      `${(condition.avgBurnRate * 100).toFixed(2)}% | ` +
+      `${isBaseline ? "-" : (results.noZauth.avgTotalBurn - condition.avgTotalBurn).toFixed(4)} |`
+    );
+  }
   const savings = results.noZauth.avgTotalBurn - results.withZauth.avgTotalBurn;
   sections.push(
-    `| With Zauth | ${results.withZauth.trials.length} | ` +
-    `${results.withZauth.avgTotalSpent.toFixed(4)} | ` +
-    `${results.withZauth.avgTotalBurn.toFixed(4)} | ` +
-    `${(results.withZauth.avgBurnRate * 100).toFixed(2)}% | ` +
-    `${savings.toFixed(4)} |`
-  );
-  sections.push(
-    `| **Reduction** | - | - | - | **${burnReduction.toFixed(2)}%** | **${savings.toFixed(4)}** |`
+    `| **Reduction (${results.conditions[1].name})** | - | - | - | **${formatReduction(burnReduction, 2)}** | **${savings.toFixed(4)}** |`
   );
   sections.push("");
 
+  if (results.conditions.length > 2) {
+    const baseline = results.conditions[0];
+    sections.push("### Oracle Comparison");
+    sections.push("");
+    sections.push(`All conditions ran with the same seeds. Burn reduction is relative to \`${baseline.name}\`.`);
+    sections.push("");
+    sections.push("| Condition | Check Cost (USDC) | Avg Total Spent (USDC) | Avg Total Burn (USDC) | Burn Rate | Burn Reduction |");
+    sections.push("|-----------|-------------------|------------------------|-----------------------|-----------|----------------|");
+    for (const condition of results.conditions) {
+      const reduction = baseline.avgBurnRate > 0
+        ? ((baseline.avgBurnRate - condition.avgBurnRate) / baseline.avgBurnRate) * 100
+        : 0;
+      sections.push(
+        `| ${condition.name} | ${condition.costPerCheck.toFixed(4)} | ` +
+        `${condition.avgTotalSpent.toFixed(4)} | ` +
+        `${condition.avgTotalBurn.toFixed(4)} | ` +
+        `${(condition.avgBurnRate * 100).toFixed(2)}% | ` +
+        `${condition === baseline ? "baseline" : `${reduction.toFixed(2)}%`} |`
+      );
+    }
+    sections.push("");
+  }
+
+  if (results.pairwise) {
+    const significantCount = results.pairwise.filter((c) => c.significant).length;
+    sections.push("### Pairwise Comparisons");
+    sections.push("");
+    sections.push(
+      `Every pair of the ${results.conditions.length} conditions is compared on its matched trials ` +
+      `(${results.pairwise.length} comparisons), using the paired t-test, or the Wilcoxon signed-rank test when ` +
+      `Shapiro-Wilk rejects normality of that pair's differences. Testing many pairs inflates the chance of a false ` +
+      `positive, so p-values are adjusted across the whole family. Holm's step-down method holds the family-wise ` +
+      `error rate at 5% and is never less powerful than Bonferroni, which is shown for reference. ` +
+      `${significantCount} of ${results.pairwise.length} comparisons are significant after Holm adjustment.`
+    );
+    sections.push("");
+    sections.push("| Condition | vs Reference | Burn Reduction | Burn Rate Diff (pp) | Test | p | Holm p | Bonferroni p | Significant |");
+    sections.push("|-----------|--------------|----------------|---------------------|------|---|--------|--------------|-------------|");
+    for (const comparison of results.pairwise) {
+      sections.push(
+        `| ${comparison.condition} | ${comparison.reference} | ` +
+        `${formatReduction(comparison.burnReductionPercent, 2)} | ` +
+        `${comparison.burnRateDifference.toFixed(2)} | ${TEST_NAMES[comparison.test]} | ` +
+        `${formatPValue(comparison.pValue)} | ${formatPValue(comparison.holmPValue)} | ` +
+        `${formatPValue(comparison.bonferroniPValue)} | ${comparison.significant ? "Yes" : "No"} |`
+      );
+    }
+    sections.push("");
+  }
+
   // Statistical Analysis
   sections.push("### Statistical Analysis");
   sections.push("");
   sections.push("| Metric | Value | Interpretation |");
   sections.push("|--------|-------|----------------|");
   sections.push(
-    `| Burn Reduction | ${burnReduction.toFixed(2)}% | ` +
-    `Zauth reduces burn by ${burnReduction.toFixed(1)}% on average |`
-  );
-  sections.push(
-    `| 95% Confidence Interval | [${ciLower.toFixed(2)}%, ${ciUpper.toFixed(2)}%] | ` +
-    `True reduction is between ${ciLower.toFixed(1)}% and ${ciUpper.toFixed(1)}% with 95% confidence |`
+    `| Burn Reduction | ${formatReduction(burnReduction, 2)} | ` +
+    `${burnReduction === null ? "Undefined: the baseline had no burn to reduce" : `Zauth reduces burn by ${burnReduction.toFixed(1)}% on average`} |`
   );
+  for (const [metric, value, interpretation] of estimateRows(results)) {
+    sections.push(`| ${metric} | ${value} | ${interpretation} |`);
+  }
   sections.push(
-    `| P-value | ${results.pValue.toFixed(4)} | ` +
-    `${significant ? "Statistically significant (p < 0.05)" : "Not statistically significant (p >= 0.05)"} |`
+    `| P-value (paired t) | ${formatPValue(results.pValue)} | ` +
+    `${results.pValue < 0.05 ? "Statistically significant (p < 0.05)" : "Not statistically significant (p >= 0.05)"} |`
   );
+  for (const [metric, value, interpretation] of robustnessRows(results)) {
+    sections.push(`| ${metric} | ${value} | ${interpretation} |`);
+  }
   sections.push(
     `| Effect Size (Cohen's d) | ${results.effectSize.toFixed(3)} | ` +
     `${effectInterpretation.charAt(0).toUpperCase() + effectInterpretation.slice(1)} effect |`
@@ -531,27 +1089,228 @@ export function generateMarkdownReport(
     `Zauth breaks even when endpoint failure rate exceeds this threshold |`
   );
   sections.push("");
+  const breakEven = results.breakEven;
+  sections.push(
+    `*Break-even = Zauth cost per cycle ($${breakEven.zauthCostPerCycle.toFixed(4)}: ` +
+    `${breakEven.checksPerCycle.toFixed(2)} checks, $${breakEven.zauthPricePerCheck.toFixed(4)} per paid check) ÷ ` +
+    `(${breakEven.queriesPerCycle.toFixed(2)} baseline queries per cycle × ` +
+    `$${breakEven.avgQueryCostUsdc.toFixed(4)} average query cost), all measured in this study.*`
+  );
+  sections.push("");
+
+  if (sequential) {
+    const design = sequential.design;
+    sections.push("### Sequential Design");
+    sections.push("");
+    sections.push(
+      `The study was analyzed after every matched trial set from the first scheduled look on, comparing ` +
+      `\`${results.conditions[0].name}\` with ` +
+      `\`${results.conditions[1].name}\` burn rates with a paired t-test. Each look converts the t statistic to the ` +
+      `normal score z with the same two-sided p-value.`
+    );
+    sections.push("");
+    sections.push(
+      `- **Efficacy boundary (O'Brien-Fleming):** stop when |z| >= c / sqrt(n / N), with N = ${sequential.plannedTrials} ` +
+      `planned trials and c = ${sequential.boundaryConstant.toFixed(3)}. c is solved by numerical integration over the ` +
+      `look schedule so that, with no true effect, the chance of crossing at any look is ${design.alpha}. ` +
+      `Early looks demand overwhelming evidence; the final boundary is close to the fixed-sample 1.960.`
+    );
+    sections.push(
+      design.futilityPower > 0
+        ? `- **Futility boundary:** stop when conditional power, the chance of crossing the final boundary if the ` +
+          `observed trend continues, falls below ${(design.futilityPower * 100).toFixed(0)}%. It is non-binding, so it ` +
+          `cannot inflate the type I error.`
+        : "- **Futility boundary:** off"
+    );
+    sections.push(`- **Outcome:** ${STOPPING_REASONS[sequential.reason]} after ${sequential.stoppedAtTrial} of ${sequential.plannedTrials} trials`);
+    sections.push("");
+    sections.push("| Metric | Value | Interpretation |");
+    sections.push("|--------|-------|----------------|");
+    for (const row of sequentialRows(sequential)) {
+      // |z| would split the Markdown cells
+      const [metric, value, interpretation] = row.map((cell) => cell.replace(/\|/g, "\\|"));
+      sections.push(`| ${metric} | ${value} | ${interpretation} |`);
+    }
+    sections.push("");
+    sections.push("| Trials | Information | t | p (unadjusted) | z | Efficacy Boundary | Nominal alpha | Conditional Power |");
+    sections.push("|--------|-------------|---|----------------|---|-------------------|---------------|-------------------|");
+    for (const look of sequential.looks) {
+      sections.push(
+        `| ${look.trials} | ${(look.informationFraction * 100).toFixed(0)}% | ${look.tStatistic.toFixed(3)} | ` +
+        `${formatPValue(look.pValue)} | ${look.zStatistic.toFixed(3)} | ${look.efficacyBoundary.toFixed(3)} | ` +
+        `${formatPValue(look.nominalAlpha)} | ${look.conditionalPower === null ? "-" : formatPercent(look.conditionalPower)} |`
+      );
+    }
+    sections.push("");
+    sections.push(
+      "*Estimates, confidence intervals and the p-values in Statistical Analysis are computed on the trials run " +
+      "and are not adjusted for the interim looks; after an early efficacy stop they tend to overstate the effect.*"
+    );
+    sections.push("");
+  }
 
   // Detailed Findings
   sections.push("### Detailed Findings");
   sections.push("");
-  sections.push(`**No-Zauth Condition:**`);
-  sections.push(`- Average queries per trial: ${results.noZauth.avgQueriesAttempted.toFixed(1)}`);
-  sections.push(`- Average failures per trial: ${results.noZauth.avgQueriesFailed.toFixed(1)}`);
-  sections.push(`- Failure rate: ${((results.noZauth.avgQueriesFailed / results.noZauth.avgQueriesAttempted) * 100).toFixed(2)}%`);
+  for (const condition of results.conditions) {
+    sections.push(`**\`${condition.name}\`${condition === results.conditions[0] ? " (baseline)" : ""}:**`);
+    sections.push(`- Average queries per trial: ${condition.avgQueriesAttempted.toFixed(1)}`);
+    sections.push(`- Average failures per trial: ${condition.avgQueriesFailed.toFixed(1)}`);
+    sections.push(`- Failure rate: ${((condition.avgQueriesFailed / condition.avgQueriesAttempted) * 100).toFixed(2)}%`);
+    if (condition !== results.conditions[0]) {
+      sections.push(
+        `- Queries avoided by oracle filtering: ${(results.noZauth.avgQueriesAttempted - condition.avgQueriesAttempted).toFixed(1)} per trial`
+      );
+    }
+    sections.push("");
+  }
+
+  sections.push("### Burn by Payment Outcome");
   sections.push("");
-  sections.push(`**With-Zauth Condition:**`);
-  sections.push(`- Average queries per trial: ${results.withZauth.avgQueriesAttempted.toFixed(1)}`);
-  sections.push(`- Average failures per trial: ${results.withZauth.avgQueriesFailed.toFixed(1)}`);
-  sections.push(`- Failure rate: ${((results.withZauth.avgQueriesFailed / results.withZauth.avgQueriesAttempted) * 100).toFixed(2)}%`);
-  sections.push(`- Queries avoided by Zauth filtering: ${(results.noZauth.avgQueriesAttempted - results.withZauth.avgQueriesAttempted).toFixed(1)} per trial`);
+  sections.push("Average burn per trial (USDC), split by how each failed payment attempt ended:");
   sections.push("");
+  sections.push("| Outcome | No Zauth | With Zauth |");
+  sections.push("|---------|----------|------------|");
+  for (const kind of PAYMENT_OUTCOME_KINDS) {
+    sections.push(
+      `| ${kind} | ${results.noZauth.avgBurnByOutcome[kind].toFixed(4)} | ` +
+      `${results.withZauth.avgBurnByOutcome[kind].toFixed(4)} |`
+    );
+  }
+  sections.push("");
+
+  if (results.conditions.some((c) => c.avgQueriesSkipped > 0)) {
+    const baseline = results.conditions[0];
+    sections.push("### Skip Accuracy");
+    sections.push("");
+    sections.push(
+      "Every query is scored against its outcome. Passed queries use what the endpoint actually returned. " +
+      "Skipped queries use the mock client's counterfactual draw for the same endpoint. " +
+      "A false skip is a working endpoint the oracle told the agent to avoid: a lost data point that burn reduction does not show."
+    );
+    sections.push("");
+    sections.push("| Condition | True Skip | False Skip | True Pass | False Pass | Unscored Skip | False-Skip Rate | Data Lost | Lost Data Points / Cycle | Burn Avoided / Lost Point |");
+    sections.push("|-----------|-----------|------------|-----------|------------|---------------|-----------------|-----------|--------------------------|---------------------------|");
+    for (const condition of results.conditions) {
+      const matrix = condition.skipConfusion;
+      const { falseSkipRate, lostDataShare } = skipAccuracy(matrix);
+      const perLostPoint = condition === baseline ? null : burnAvoidedPerLostDataPoint(baseline, condition);
+      sections.push(
+        `| ${condition.name} | ${matrix.trueSkip.toFixed(1)} | ${matrix.falseSkip.toFixed(1)} | ` +
+        `${matrix.truePass.toFixed(1)} | ${matrix.falsePass.toFixed(1)} | ${matrix.unknownSkip.toFixed(1)} | ` +
+        `${formatPercent(falseSkipRate)} | ${formatPercent(lostDataShare)} | ` +
+        `${(matrix.falseSkip / config.cyclesPerTrial).toFixed(2)} | ` +
+        `${perLostPoint === null ? "-" : `$${perLostPoint.toFixed(4)}`} |`
+      );
+    }
+    sections.push("");
+    sections.push(
+      "*Counts are per trial. False-skip rate = false skips ÷ scored skips. Data lost = false skips ÷ (true passes + false skips), " +
+      "the share of obtainable responses the agent gave up. Real mode has no counterfactual, so its skips are unscored.*"
+    );
+    sections.push("");
+  }
+
+  if (results.sweep && results.sweep.levels.length > 0) {
+    const sweep = results.sweep;
+    const peak = sweep.levels.find((level) => level.value === sweep.peakValue);
+    sections.push("### Threshold Sweep");
+    sections.push("");
+    sections.push(
+      `\`${sweep.treatment}\` was run at ${sweep.levels.length} uptime thresholds against \`${sweep.baseline}\`, ` +
+      `each with the same ${config.trialsPerCondition} trial seeds. Net savings are burn savings minus the extra ` +
+      `check cost, per cycle.`
+    );
+    sections.push("");
+    if (peak) {
+      sections.push(
+        `**Net savings peak at a threshold of ${peak.value.toFixed(2)}**: ` +
+        `$${peak.netSavingsPerCycle.toFixed(4)} per cycle, burn rate ${(peak.burnRate * 100).toFixed(2)}%, ` +
+        `${peak.skippedWouldSucceedPerTrial.toFixed(1)} skipped queries per trial that would have succeeded, ` +
+        `${(peak.allocationAgreement * 100).toFixed(1)}% allocation agreement with the baseline.`
+      );
+      sections.push("");
+    }
+    sections.push("| Threshold | Burn Rate | Zauth Cost / Cycle | Net Savings / Cycle | Skipped / Trial | Would Have Succeeded / Trial | Allocation Agreement |");
+    sections.push("|-----------|-----------|--------------------|---------------------|-----------------|------------------------------|----------------------|");
+    for (const level of sweep.levels) {
+      const marker = level === peak ? " **(peak)**" : "";
+      sections.push(
+        `| ${level.value.toFixed(2)}${marker} | ${(level.burnRate * 100).toFixed(2)}% | ` +
+        `$${level.zauthCostPerCycle.toFixed(4)} | $${level.netSavingsPerCycle.toFixed(4)} | ` +
+        `${level.queriesSkippedPerTrial.toFixed(1)} | ${level.skippedWouldSucceedPerTrial.toFixed(1)} | ` +
+        `${(level.allocationAgreement * 100).toFixed(1)}% |`
+      );
+    }
+    sections.push("");
+    sections.push(
+      "*\"Would have succeeded\" uses the mock client's counterfactual draw for each skipped query; it is 0 in real mode.*"
+    );
+    sections.push("");
+  }
+
+  const decisions = results.withZauth.trials.flatMap((t) => t.metrics.flatMap((m) => m.skipDecisions));
+  if (decisions.length > 0) {
+    sections.push("### Skip Decisions");
+    sections.push("");
+    sections.push(
+      `With-Zauth skip policy: **${decisions[0].policy}**. Expected burn is price × (1 − uptime); ` +
+      `expected data value is uptime × (data value − price). Net expected savings subtract the check cost, ` +
+      `which is already paid when the decision is made and so does not change it. ` +
+      `Every decision is recorded in the JSON export.`
+    );
+    sections.push("");
+    sections.push("| Category | Decisions | Skipped | Avg Expected Burn (USDC) | Avg Expected Data Value (USDC) | Total Net Expected Savings (USDC) |");
+    sections.push("|----------|-----------|---------|--------------------------|--------------------------------|-----------------------------------|");
+    for (const category of DATA_CATEGORIES) {
+      const inCategory = decisions.filter((d) => d.category === category);
+      if (inCategory.length === 0) continue;
+      const avg = (pick: (d: SkipDecision) => number) =>
+        inCategory.reduce((sum, d) => sum + pick(d), 0) / inCategory.length;
+      sections.push(
+        `| ${category} | ${inCategory.length} | ${inCategory.filter((d) => d.skip).length} | ` +
+        `${avg((d) => d.expectedBurnUsdc).toFixed(4)} | ${avg((d) => d.expectedDataValueUsdc).toFixed(4)} | ` +
+        `${inCategory.reduce((sum, d) => sum + d.netExpectedSavingsUsdc, 0).toFixed(4)} |`
+      );
+    }
+    sections.push("");
+  }
+
+  if (results.zauthCache.ttlMs > 0) {
+    const cache = results.zauthCache;
+    sections.push("### Zauth Check Cache");
+    sections.push("");
+    sections.push(
+      `Zauth checks were cached for ${cache.ttlMs / 1000}s ` +
+      `(plus ${cache.staleTtlMs / 1000}s stale-while-revalidate) within each trial. ` +
+      `${(cache.hitRate * 100).toFixed(1)}% of checks were served from cache. ` +
+      `Fresh hits are free; stale hits still pay for a background revalidation.`
+    );
+    sections.push("");
+    sections.push("| Per Cycle | Cached | Uncached | Change |");
+    sections.push("|-----------|--------|----------|--------|");
+    sections.push(
+      `| Zauth checks | ${cache.checksPerCycle.toFixed(2)} | ${cache.checksPerCycle.toFixed(2)} | ` +
+      `${cache.cacheHitsPerCycle.toFixed(2)} from cache |`
+    );
+    sections.push(
+      `| Zauth cost (USDC) | ${cache.zauthCostPerCycle.toFixed(4)} | ${cache.uncachedZauthCostPerCycle.toFixed(4)} | ` +
+      `${(cache.zauthCostPerCycle - cache.uncachedZauthCostPerCycle).toFixed(4)} |`
+    );
+    sections.push(
+      `| Net savings (USDC) | ${cache.netSavingsPerCycle.toFixed(4)} | ${cache.uncachedNetSavingsPerCycle.toFixed(4)} | ` +
+      `${(cache.netSavingsPerCycle - cache.uncachedNetSavingsPerCycle).toFixed(4)} |`
+    );
+    sections.push("");
+    sections.push("*Net savings here are burn savings minus Zauth cost; the uncached column charges every check.*");
+    sections.push("");
+  }
 
   // Conclusions
   sections.push("## Conclusions");
   sections.push("");
 
-  if (significant && burnReduction > 0) {
+  if (significant && burnReduction !== null && burnReduction > 0) {
     sections.push(
       `This study provides ${significant ? "statistically significant" : "preliminary"} evidence that Zauth x402 ` +
       `endpoint verification reduces burn in DeFi yield optimization workflows by ${burnReduction.toFixed(1)}%. ` +
@@ -572,10 +1331,19 @@ export function generateMarkdownReport(
     sections.push(
       `4. **Reproducibility:** Study used fixed random seeds for deterministic results`
     );
+    const lostDataPoints = results.withZauth.skipConfusion.falseSkip;
+    if (lostDataPoints > 0) {
+      sections.push(
+        `5. **Opportunity cost:** Zauth skipped ${lostDataPoints.toFixed(1)} working endpoints per trial ` +
+        `(${formatPercent(skipAccuracy(results.withZauth.skipConfusion).lostDataShare)} of obtainable responses), ` +
+        `data the agent never saw`
+      );
+    }
   } else {
+    const trend = burnReduction !== null && burnReduction > 0;
     sections.push(
-      `This study found ${burnReduction > 0 ? "a trend toward" : "no evidence of"} burn reduction ` +
-      `with Zauth x402 verification. ${!significant && burnReduction > 0 ? "While the observed reduction was " + burnReduction.toFixed(1) + "%, " : ""}` +
+      `This study found ${trend ? "a trend toward" : "no evidence of"} burn reduction ` +
+      `with Zauth x402 verification. ${!significant && trend ? "While the observed reduction was " + formatReduction(burnReduction, 1) + ", " : ""}` +
       `${!significant ? "The results did not reach statistical significance. " : ""}` +
       `Further investigation with ${!significant ? "larger sample sizes or " : ""}different endpoint reliability profiles may be warranted.`
     );
@@ -589,6 +1357,9 @@ export function generateMarkdownReport(
   sections.push("- **Use case specificity:** Results apply to DeFi yield optimization workflows requiring 3-5 diverse APIs");
   sections.push("- **Agent type:** Autonomous agents with data aggregation needs; may differ for API-to-API integrations");
   sections.push("- **Endpoint failure patterns:** Tested with " + (config.mockMode ? "simulated" : "real") + " endpoint reliability; actual patterns vary by provider");
+  if (config.mockMode && config.mockZauth && isPerfectMockZauth(config.mockZauth)) {
+    sections.push("- **Oracle accuracy:** The mock Zauth reported each endpoint's true current uptime, so its measured value is an upper bound");
+  }
   sections.push("");
   sections.push("### Technical Constraints");
   sections.push("- **Payment mode:** " + (config.mockMode ? "Mock x402 payments (simulated costs)" : `Real x402 payments on ${network.toUpperCase()}`));
@@ -597,9 +1368,17 @@ export function generateMarkdownReport(
   sections.push("- **Time window:** Snapshot study; long-term endpoint reliability drift not captured");
   sections.push("");
   sections.push("### Statistical Limitations");
-  sections.push(`- **Sample size:** ${config.trialsPerCondition} trials per condition; larger N improves power`);
+  sections.push(`- **Sample size:** ${trialsRun} trials per condition; larger N improves power`);
+  if (sequential && sequential.reason === "efficacy") {
+    sections.push("- **Early stopping:** the reported effect is biased upward because the study stopped when the evidence peaked");
+  }
   sections.push("- **Variance:** Wide confidence intervals suggest more trials needed for precise estimates");
   sections.push("- **Matched pairs:** Same random seed ensures fair comparison but limits generalizability");
+  sections.push(
+    `- **Test assumptions:** Two-sided paired t-test on per-trial burn rates (df = ${results.tests.pairedT.degreesOfFreedom}), ` +
+    "exact Student-t p-value and CI; assumes the paired differences are roughly normal. " +
+    `Wilcoxon signed-rank, permutation and bootstrap results are reported alongside; this report used the ${testUsed}`
+  );
   sections.push("");
 
   // Reproducibility
@@ -609,7 +1388,14 @@ export function generateMarkdownReport(
   sections.push("");
   sections.push("```bash");
   sections.push(
-    `npx tsx src/index.ts --study --trials=${config.trialsPerCondition} --cycles=${config.cyclesPerTrial} --seed=${config.baseSeed}`
+    `npx tsx src/index.ts --study --trials=${config.trialsPerCondition} --cycles=${config.cyclesPerTrial} --seed=${config.baseSeed}` +
+    (config.sequential
+      ? ` --sequential --alpha=${config.sequential.alpha} --futility=${config.sequential.futilityPower}`
+      : "") +
+    (config.tapeFile ? ` --tapes=${config.tapeFile}` : "") +
+    (config.scenarioSource ? ` --scenario=${config.scenarioSource}` : "") +
+    (config.failureModels ? ` --failure-models=${config.failureModels}` : "") +
+    (config.mockMode && config.mockZauth ? mockZauthFlags(config.mockZauth).map((flag) => ` ${flag}`).join("") : "")
   );
   sections.push("```");
   sections.push("");
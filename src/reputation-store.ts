@@ -0,0 +1,177 @@
+/**
+ * ReputationStore - Persistent per-URL call history
+ *
+ * Records the outcome of every paid call (success, spend, burn, latency) in a
+ * JSON file under `outputDir` and turns it into a free reliability score.
+ * Only observations inside the decay window count; older ones are dropped on
+ * load and save.
+ *
+ * Observations are timed by `now` (default: wall-clock time). Mock studies
+ * pass the trial's tape time, so the decay window never depends on how fast
+ * the machine runs.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+export interface ReputationObservation {
+  timestamp: number;   // Unix ms, or tape ms with a simulated clock
+  success: boolean;
+  spentUsdc: number;
+  burnUsdc: number;
+  latencyMs: number;
+}
+
+export interface ReputationStats {
+  url: string;
+  attempts: number;
+  successes: number;
+  successRate: number;       // 0-1
+  burnUsdc: number;
+  avgLatencyMs: number;
+  lastFailureAt: string | null;  // ISO timestamp
+}
+
+export interface ReputationStoreConfig {
+  filePath?: string;           // Omit for an in-memory store
+  decayWindowMs?: number;      // Default: 7 days
+  maxObservationsPerUrl?: number;  // Default: 500
+  now?: () => number;          // Clock (default: Date.now)
+}
+
+interface ReputationFile {
+  version: 1;
+  decayWindowMs: number;
+  updatedAt: string;
+  endpoints: Record<string, ReputationObservation[]>;
+}
+
+const DEFAULT_DECAY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_OBSERVATIONS = 500;
+
+export class ReputationStore {
+  private readonly filePath?: string;
+  private readonly decayWindowMs: number;
+  private readonly maxObservationsPerUrl: number;
+  private readonly endpoints: Map<string, ReputationObservation[]>;
+  private readonly now: () => number;
+
+  constructor(config: ReputationStoreConfig = {}) {
+    this.filePath = config.filePath;
+    this.now = config.now ?? Date.now;
+    this.decayWindowMs = config.decayWindowMs ?? DEFAULT_DECAY_WINDOW_MS;
+    this.maxObservationsPerUrl = config.maxObservationsPerUrl ?? DEFAULT_MAX_OBSERVATIONS;
+    this.endpoints = new Map();
+
+    if (this.filePath && fs.existsSync(this.filePath)) {
+      const data = JSON.parse(fs.readFileSync(this.filePath, "utf-8")) as ReputationFile;
+      for (const [url, observations] of Object.entries(data.endpoints ?? {})) {
+        this.endpoints.set(url, observations);
+      }
+      this.prune();
+    }
+  }
+
+  /**
+   * Record the outcome of one paid call.
+   */
+  record(url: string, observation: Omit<ReputationObservation, "timestamp"> & { timestamp?: number }): void {
+    const observations = this.endpoints.get(url) ?? [];
+    observations.push({ ...observation, timestamp: observation.timestamp ?? this.now() });
+    if (observations.length > this.maxObservationsPerUrl) {
+      observations.splice(0, observations.length - this.maxObservationsPerUrl);
+    }
+    this.endpoints.set(url, observations);
+  }
+
+  /**
+   * Statistics for a URL over the decay window, or null if it has no recent history.
+   */
+  getStats(url: string, now: number = this.now()): ReputationStats | null {
+    const recent = (this.endpoints.get(url) ?? []).filter(
+      (o) => now - o.timestamp <= this.decayWindowMs
+    );
+    if (recent.length === 0) {
+      return null;
+    }
+
+    const successes = recent.filter((o) => o.success).length;
+    const failures = recent.filter((o) => !o.success);
+    const lastFailure = failures.length > 0 ? failures[failures.length - 1].timestamp : null;
+
+    return {
+      url,
+      attempts: recent.length,
+      successes,
+      successRate: successes / recent.length,
+      burnUsdc: recent.reduce((sum, o) => sum + o.burnUsdc, 0),
+      avgLatencyMs: recent.reduce((sum, o) => sum + o.latencyMs, 0) / recent.length,
+      lastFailureAt: lastFailure !== null ? new Date(lastFailure).toISOString() : null,
+    };
+  }
+
+  /**
+   * Reliability score (0-100) from the recent success rate, or null with no history.
+   */
+  score(url: string): number | null {
+    const stats = this.getStats(url);
+    return stats ? stats.successRate * 100 : null;
+  }
+
+  /**
+   * Number of URLs with history inside the decay window.
+   */
+  size(): number {
+    this.prune();
+    return this.endpoints.size;
+  }
+
+  /**
+   * Write the store to its file (no-op for in-memory stores).
+   */
+  save(): void {
+    if (!this.filePath) {
+      return;
+    }
+    this.prune();
+
+    const data: ReputationFile = {
+      version: 1,
+      decayWindowMs: this.decayWindowMs,
+      updatedAt: new Date().toISOString(),
+      endpoints: Object.fromEntries(this.endpoints),
+    };
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2));
+  }
+
+  private prune(now: number = this.now()): void {
+    for (const [url, observations] of this.endpoints) {
+      const recent = observations.filter((o) => now - o.timestamp <= this.decayWindowMs);
+      if (recent.length === 0) {
+        this.endpoints.delete(url);
+      } else {
+        this.endpoints.set(url, recent);
+      }
+    }
+  }
+}
+
+/**
+ * Default reputation file under an output directory. Mock runs use a separate
+ * file so simulated endpoints never mix with real history. Only real runs
+ * persist by default; a mock study keeps each trial's history in memory.
+ */
+export function getReputationFilePath(outputDir: string, mockMode: boolean): string {
+  return path.join(outputDir, mockMode ? "reputation-mock.json" : "reputation.json");
+}
+
+/**
+ * Factory function to create a ReputationStore
+ * @param config - Optional file path and decay window
+ * @returns New ReputationStore instance
+ */
+export function createReputationStore(config: ReputationStoreConfig = {}): ReputationStore {
+  return new ReputationStore(config);
+}
@@ -0,0 +1,303 @@
+/**
+ * Scenarios - One file describing the mock market a study runs against
+ *
+ * A scenario lists the mock endpoints (URL, name, data category, price) and,
+ * per endpoint, its failure model and price changes (see failure-model.ts),
+ * latency distribution and response payload, plus how the mock Zauth sees
+ * them (see MockZauthBehavior). Files are YAML or JSON:
+ *
+ *   version: 1
+ *   name: flaky-long-tail
+ *   description: A few solid providers and many unreliable ones
+ *   defaultFailureRate: 0.3       # endpoints without a failureModel
+ *   zauth:                        # any MockZauthBehavior field, plus priceUsdc
+ *     lagCycles: 2
+ *   endpoints:
+ *     - url: https://mock-api.example.com/v1/pools
+ *       name: Example Pools
+ *       category: pool            # pool | whale | sentiment: which query the agent routes it to
+ *       priceUsdc: 0.03
+ *       failureModel: { kind: markov, downProbability: 0.1, recoveryProbability: 0.3 }
+ *       priceChanges: [{ cycle: 20, priceUsdc: 0.05 }]
+ *       latency: { kind: lognormal, medianMs: 250, sigma: 0.5 }
+ *       payload: pool             # pool | whale | sentiment | empty (default: the category's)
+ *
+ * `--scenario=NAME` loads a built-in from scenarios/NAME.yaml, anything else
+ * is read as a path. Without `--scenario`, studies run on DEFAULT_SCENARIO
+ * (the MOCK_ENDPOINTS market). `--failure-models` and the `--zauth-*` flags
+ * still apply on top of a scenario.
+ */
+
+import * as fs from "fs";
+import { fileURLToPath } from "url";
+import { parse as parseYaml } from "yaml";
+import {
+  DEFAULT_MOCK_FAILURE_RATE,
+  DEFAULT_MOCK_ZAUTH_BEHAVIOR,
+  type Endpoint,
+  type LatencyDistribution,
+  type MockPayload,
+  type MockZauthBehavior,
+} from "./config.js";
+import { MOCK_ENDPOINTS } from "./endpoints.js";
+import {
+  validateFailureScenario,
+  type FailureModelSpec,
+  type FailureScenario,
+  type PriceChange,
+} from "./failure-model.js";
+import { DATA_CATEGORIES, classifyEndpointCategory, type DataCategory } from "./skip-policy.js";
+
+export const SCENARIO_VERSION = 1;
+
+export const BUILT_IN_SCENARIOS = ["healthy-market", "flaky-long-tail", "outage-storm"] as const;
+
+const BUILT_IN_SCENARIO_DIR = fileURLToPath(new URL("../scenarios/", import.meta.url));
+
+const MOCK_PAYLOADS: readonly MockPayload[] = ["pool", "whale", "sentiment", "empty"];
+
+export interface ScenarioEndpoint {
+  url: string;
+  name: string;
+  category: DataCategory;
+  priceUsdc: number;               // Listed price; priceChanges set what is charged
+  failureModel?: FailureModelSpec; // Default: bernoulli at defaultFailureRate
+  priceChanges?: PriceChange[];
+  latency?: LatencyDistribution;   // Default: uniform 200-300ms
+  payload?: MockPayload;           // Default: the category's generator
+}
+
+export interface ScenarioZauth extends Partial<MockZauthBehavior> {
+  priceUsdc?: number;              // Price per mock Zauth check
+}
+
+export interface Scenario {
+  version: typeof SCENARIO_VERSION;
+  name: string;
+  description?: string;
+  defaultFailureRate?: number;     // Default: DEFAULT_MOCK_FAILURE_RATE
+  zauth?: ScenarioZauth;
+  endpoints: ScenarioEndpoint[];
+}
+
+/**
+ * Category the agent would route an endpoint to from its URL alone, or null
+ * when the URL has no category keywords.
+ */
+function urlCategory(url: string): DataCategory | null {
+  const category = classifyEndpointCategory({ url, name: "", category: "", priceUsdc: 0 });
+  if (category === "pool" && !url.includes("pools") && !url.includes("vaults")) {
+    return null;
+  }
+  return category;
+}
+
+/**
+ * The market studies ran on before scenarios: MOCK_ENDPOINTS at their
+ * constant failure rates.
+ */
+export const DEFAULT_SCENARIO: Scenario = {
+  version: SCENARIO_VERSION,
+  name: "default",
+  description: "Five DeFi data providers with constant failure rates from 15% to 40%",
+  defaultFailureRate: DEFAULT_MOCK_FAILURE_RATE,
+  endpoints: MOCK_ENDPOINTS.map((endpoint) => ({
+    url: endpoint.url,
+    name: endpoint.name,
+    category: classifyEndpointCategory(endpoint),
+    priceUsdc: endpoint.priceUsdc,
+    failureModel: { kind: "bernoulli", failureRate: endpoint.mockFailureRate ?? DEFAULT_MOCK_FAILURE_RATE },
+    latency: { kind: "uniform", minMs: endpoint.mockLatencyMs ?? 200, maxMs: (endpoint.mockLatencyMs ?? 200) + 100 },
+  })),
+};
+
+/**
+ * Endpoints the agent queries. Constant-rate endpoints carry their rate so
+ * clients without an outcome tape simulate them correctly too.
+ */
+export function scenarioEndpoints(scenario: Scenario): Endpoint[] {
+  return scenario.endpoints.map((endpoint) => ({
+    url: endpoint.url,
+    name: endpoint.name,
+    category: endpoint.category,
+    priceUsdc: endpoint.priceUsdc,
+    mockFailureRate: endpoint.failureModel?.kind === "bernoulli"
+      ? endpoint.failureModel.failureRate
+      : endpoint.failureModel ? undefined : scenario.defaultFailureRate ?? DEFAULT_MOCK_FAILURE_RATE,
+    mockLatency: endpoint.latency,
+    mockPayload: endpoint.payload ?? endpoint.category,
+  }));
+}
+
+/**
+ * Failure models and price changes in the form outcome tapes are generated from.
+ */
+export function scenarioFailures(scenario: Scenario): FailureScenario {
+  const endpoints: FailureScenario["endpoints"] = {};
+  for (const endpoint of scenario.endpoints) {
+    endpoints[endpoint.url] = { model: endpoint.failureModel, priceChanges: endpoint.priceChanges };
+  }
+  return { endpoints };
+}
+
+/**
+ * Mock Zauth behaviour the scenario asks for; `--zauth-*` flags override it.
+ */
+export function scenarioMockZauth(scenario: Scenario): MockZauthBehavior {
+  const { priceUsdc: _priceUsdc, ...behavior } = scenario.zauth ?? {};
+  return { ...DEFAULT_MOCK_ZAUTH_BEHAVIOR, ...behavior };
+}
+
+/**
+ * The scenario with a `--failure-models` file's models and price changes
+ * replacing those of the endpoints it lists.
+ */
+export function applyFailureScenario(scenario: Scenario, failures: FailureScenario): Scenario {
+  return {
+    ...scenario,
+    endpoints: scenario.endpoints.map((endpoint) => {
+      const spec = failures.endpoints[endpoint.url];
+      if (!spec) return endpoint;
+      return {
+        ...endpoint,
+        failureModel: spec.model ?? endpoint.failureModel,
+        priceChanges: spec.priceChanges ?? endpoint.priceChanges,
+      };
+    }),
+  };
+}
+
+function isRate(value: unknown): value is number {
+  return typeof value === "number" && value >= 0 && value <= 1;
+}
+
+function isNonNegative(value: unknown): value is number {
+  return typeof value === "number" && value >= 0;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
+function validateLatency(url: string, raw: unknown): string[] {
+  const latency = asRecord(raw);
+  switch (latency?.kind) {
+    case "uniform":
+      return isNonNegative(latency.minMs) && isNonNegative(latency.maxMs) && latency.maxMs >= latency.minMs
+        ? []
+        : [`${url}: uniform latency needs 0 <= minMs <= maxMs`];
+    case "exponential":
+      return isNonNegative(latency.minMs) && typeof latency.meanMs === "number" && latency.meanMs > latency.minMs
+        ? []
+        : [`${url}: exponential latency needs 0 <= minMs < meanMs`];
+    case "lognormal":
+      return typeof latency.medianMs === "number" && latency.medianMs > 0 && isNonNegative(latency.sigma)
+        ? []
+        : [`${url}: lognormal latency needs medianMs > 0 and sigma >= 0`];
+    default:
+      return [`${url}: unknown latency distribution "${String(latency?.kind)}" (uniform, exponential, lognormal)`];
+  }
+}
+
+function validateZauth(raw: unknown): string[] {
+  const zauth = asRecord(raw);
+  if (!zauth) return ["zauth must be an object"];
+  const errors: string[] = [];
+  const isCount = (n: unknown): n is number => typeof n === "number" && Number.isInteger(n) && n >= 0;
+  for (const field of ["lagCycles", "staleAgeCycles"]) {
+    if (zauth[field] !== undefined && !isCount(zauth[field])) {
+      errors.push(`zauth.${field} must be a whole number of cycles`);
+    }
+  }
+  if (zauth.windowCycles !== undefined && !(isCount(zauth.windowCycles) && zauth.windowCycles >= 1)) {
+    errors.push("zauth.windowCycles must be a whole number of cycles, at least 1");
+  }
+  for (const field of ["staleProbability", "coverage"]) {
+    if (zauth[field] !== undefined && !isRate(zauth[field])) {
+      errors.push(`zauth.${field} must be between 0 and 1`);
+    }
+  }
+  for (const field of ["noiseStdDev", "priceUsdc"]) {
+    if (zauth[field] !== undefined && !isNonNegative(zauth[field])) {
+      errors.push(`zauth.${field} must not be negative`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Check a parsed scenario. Returns the problems found.
+ */
+export function validateScenario(scenario: Scenario): string[] {
+  const errors: string[] = [];
+  if (scenario?.version !== SCENARIO_VERSION) {
+    return [`unsupported scenario version ${scenario?.version} (expected ${SCENARIO_VERSION})`];
+  }
+  if (typeof scenario.name !== "string" || scenario.name.length === 0) {
+    errors.push("a scenario needs a name");
+  }
+  if (scenario.defaultFailureRate !== undefined && !isRate(scenario.defaultFailureRate)) {
+    errors.push("defaultFailureRate must be between 0 and 1");
+  }
+  if (scenario.zauth !== undefined) {
+    errors.push(...validateZauth(scenario.zauth));
+  }
+  if (!Array.isArray(scenario.endpoints) || scenario.endpoints.length === 0) {
+    return [...errors, "a scenario needs at least one endpoint"];
+  }
+
+  const urls = new Set<string>();
+  for (const endpoint of scenario.endpoints) {
+    const url = endpoint?.url;
+    if (typeof url !== "string" || typeof endpoint.name !== "string") {
+      errors.push("every endpoint needs a url and a name");
+      continue;
+    }
+    if (urls.has(url)) {
+      errors.push(`${url}: listed twice`);
+    }
+    urls.add(url);
+    if (!DATA_CATEGORIES.includes(endpoint.category)) {
+      errors.push(`${url}: category must be one of ${DATA_CATEGORIES.join(", ")}`);
+    } else if ((urlCategory(url) ?? endpoint.category) !== endpoint.category) {
+      // The agent also routes by URL keywords, so they must agree with the category
+      errors.push(`${url}: the URL reads as a ${urlCategory(url)} endpoint, not ${endpoint.category}`);
+    }
+    if (!isNonNegative(endpoint.priceUsdc)) {
+      errors.push(`${url}: priceUsdc must not be negative`);
+    }
+    if (endpoint.latency !== undefined) {
+      errors.push(...validateLatency(url, endpoint.latency));
+    }
+    if (endpoint.payload !== undefined && !MOCK_PAYLOADS.includes(endpoint.payload)) {
+      errors.push(`${url}: payload must be one of ${MOCK_PAYLOADS.join(", ")}`);
+    }
+  }
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  // Failure models and price changes share the --failure-models checks
+  return validateFailureScenario(scenarioFailures(scenario), scenarioEndpoints(scenario));
+}
+
+/**
+ * Load a built-in scenario by name, or a scenario file (YAML or JSON) by path.
+ */
+export function loadScenario(source: string): Scenario {
+  const scenarioPath = (BUILT_IN_SCENARIOS as readonly string[]).includes(source)
+    ? `${BUILT_IN_SCENARIO_DIR}${source}.yaml`
+    : source;
+  if (!fs.existsSync(scenarioPath)) {
+    throw new Error(`Scenario not found: ${source} (built-in scenarios: ${BUILT_IN_SCENARIOS.join(", ")})`);
+  }
+  // JSON is valid YAML, so one parser reads both
+  const scenario = parseYaml(fs.readFileSync(scenarioPath, "utf-8")) as Scenario;
+  const errors = validateScenario(scenario);
+  if (errors.length > 0) {
+    throw new Error(`Invalid scenario ${source}:\n  ${errors.join("\n  ")}`);
+  }
+  return scenario;
+}
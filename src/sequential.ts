@@ -0,0 +1,223 @@
+/**
+ * Sequential Testing - Early stopping for matched-trial studies
+ *
+ * Real-mode studies pay for every trial, so `runScientificStudy` can look at
+ * the baseline vs primary treatment burn rates after each matched trial set
+ * and stop as soon as the answer is clear.
+ *
+ * Efficacy uses a two-sided O'Brien-Fleming boundary. The paired t statistic is
+ * converted to the normal score with the same p-value, and the study stops when
+ * |z| >= c / √t, where t is the information fraction (trials so far / planned
+ * trials). The constant c is solved so that, under no effect, the chance of
+ * crossing at any look is alpha. The crossing probability integrates the
+ * Brownian-motion form of the statistic, B(t) = z√t, across the look schedule
+ * (Armitage-McPherson-Rowe recursion). Early looks need overwhelming evidence;
+ * the final boundary stays close to the fixed-sample 1.96.
+ *
+ * Futility is non-binding: the study stops when conditional power under the
+ * current trend falls below `futilityPower`. Because it never makes rejecting
+ * easier, it does not inflate alpha.
+ */
+
+import type { SequentialDesign, SequentialLook, SequentialResults, StoppingReason } from "./types.js";
+import { mean, normalCdf, normalQuantile, tTest } from "./statistics.js";
+
+export const DEFAULT_SEQUENTIAL_DESIGN: SequentialDesign = {
+  method: "obrien-fleming",
+  alpha: 0.05,
+  futilityPower: 0.1,
+  minTrials: 5,
+};
+
+const MAX_LOOKS = 100;       // Longer studies look every few trials to bound the integration cost
+const GRID_POINTS_PER_SD = 6; // Quadrature resolution relative to the smallest look increment
+
+/**
+ * Trial counts to look at: every matched trial set from `minTrials` on,
+ * thinned to at most MAX_LOOKS, always ending at the planned total.
+ */
+export function lookSchedule(plannedTrials: number, minTrials: number): number[] {
+  const first = Math.min(Math.max(minTrials, 2), plannedTrials);
+  const step = Math.max(1, Math.ceil((plannedTrials - first + 1) / MAX_LOOKS));
+  const looks: number[] = [];
+  for (let n = first; n < plannedTrials; n += step) {
+    looks.push(n);
+  }
+  looks.push(plannedTrials);
+  return looks;
+}
+
+function normalDensity(x: number): number {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * Probability that |B(t_k)| >= c at some look, with B standard Brownian motion.
+ * The unstopped sub-density of B is carried between looks on a Simpson grid
+ * over [-c, c].
+ */
+function crossingProbability(c: number, fractions: number[]): number {
+  const first = fractions[0];
+  let total = 2 * (1 - normalCdf(c / Math.sqrt(first)));
+  if (fractions.length === 1) return total;
+
+  const smallestIncrement = Math.min(...fractions.slice(1).map((t, i) => t - fractions[i]));
+  const intervals = 2 * Math.ceil((c * GRID_POINTS_PER_SD) / Math.sqrt(smallestIncrement));
+  const h = (2 * c) / intervals;
+  const grid = Array.from({ length: intervals + 1 }, (_, i) => -c + i * h);
+  const weights = grid.map((_, i) => (h / 3) * (i === 0 || i === intervals ? 1 : i % 2 === 1 ? 4 : 2));
+
+  // Weighted sub-density at the first look
+  let density = grid.map((x, i) => (weights[i] * normalDensity(x / Math.sqrt(first))) / Math.sqrt(first));
+  const kernels = new Map<string, Float64Array>();
+
+  for (let k = 1; k < fractions.length; k++) {
+    const increment = fractions[k] - fractions[k - 1];
+    const sd = Math.sqrt(increment);
+
+    for (let j = 0; j < grid.length; j++) {
+      total += density[j] * (normalCdf((-c - grid[j]) / sd) + 1 - normalCdf((c - grid[j]) / sd));
+    }
+    if (k === fractions.length - 1) break;
+
+    // Transition kernel depends only on the increment, which repeats between looks
+    const key = increment.toFixed(12);
+    let kernel = kernels.get(key);
+    if (!kernel) {
+      kernel = new Float64Array(grid.length * grid.length);
+      for (let i = 0; i < grid.length; i++) {
+        for (let j = 0; j < grid.length; j++) {
+          kernel[i * grid.length + j] = normalDensity((grid[i] - grid[j]) / sd) / sd;
+        }
+      }
+      kernels.set(key, kernel);
+    }
+
+    const next = new Array<number>(grid.length);
+    for (let i = 0; i < grid.length; i++) {
+      let sum = 0;
+      for (let j = 0; j < grid.length; j++) {
+        sum += kernel[i * grid.length + j] * density[j];
+      }
+      next[i] = weights[i] * sum;
+    }
+    density = next;
+  }
+
+  return total;
+}
+
+/**
+ * O'Brien-Fleming constant c for looks at the given information fractions:
+ * overall two-sided crossing probability alpha under no effect.
+ */
+export function obrienFlemingConstant(fractions: number[], alpha: number): number {
+  // c lies between the fixed-sample and the Bonferroni critical values
+  let low = normalQuantile(1 - alpha / 2);
+  let high = normalQuantile(1 - alpha / (2 * fractions.length)) + 1;
+  while (high - low > 1e-5) {
+    const mid = (low + high) / 2;
+    if (crossingProbability(mid, fractions) > alpha) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+export class SequentialMonitor {
+  readonly design: SequentialDesign;
+  readonly plannedTrials: number;
+  readonly boundaryConstant: number;
+  readonly schedule: number[];  // Trial counts to look at
+  private readonly looks: SequentialLook[] = [];
+  private rejected = false;
+  private stopReason: StoppingReason | null = null;
+
+  constructor(design: SequentialDesign, plannedTrials: number) {
+    if (!(design.alpha > 0 && design.alpha < 1)) {
+      throw new Error("Sequential alpha must be between 0 and 1");
+    }
+    if (!(design.futilityPower >= 0 && design.futilityPower < 1)) {
+      throw new Error("Futility power must be between 0 and 1 (0 disables futility stopping)");
+    }
+    this.design = design;
+    this.plannedTrials = plannedTrials;
+    this.schedule = lookSchedule(plannedTrials, design.minTrials);
+    this.boundaryConstant = obrienFlemingConstant(
+      this.schedule.map((n) => n / plannedTrials),
+      design.alpha
+    );
+  }
+
+  /**
+   * Efficacy boundary on |z| after `trials` matched trials.
+   */
+  boundaryAt(trials: number): number {
+    return this.boundaryConstant / Math.sqrt(trials / this.plannedTrials);
+  }
+
+  /**
+   * Analyze the matched burn rates so far. Returns the stopping reason once a
+   * boundary is crossed, otherwise null (including between scheduled looks).
+   */
+  observe(baselineRates: number[], treatmentRates: number[]): StoppingReason | null {
+    const trials = Math.min(baselineRates.length, treatmentRates.length);
+    if (this.stopReason || !this.schedule.includes(trials)) return null;
+
+    const { tStatistic, pValue } = tTest(baselineRates.slice(0, trials), treatmentRates.slice(0, trials));
+    const direction = Math.sign(mean(baselineRates.slice(0, trials)) - mean(treatmentRates.slice(0, trials)));
+    const zStatistic = direction * normalQuantile(1 - pValue / 2);
+    const fraction = trials / this.plannedTrials;
+    const efficacyBoundary = this.boundaryAt(trials);
+    const final = trials >= this.plannedTrials;
+
+    // Chance of ending past the final boundary if the observed drift continues
+    const conditionalPower = final
+      ? null
+      : 1 - normalCdf((this.boundaryConstant - Math.abs(zStatistic) / Math.sqrt(fraction)) / Math.sqrt(1 - fraction));
+
+    this.looks.push({
+      trials,
+      informationFraction: fraction,
+      tStatistic,
+      pValue,
+      zStatistic,
+      efficacyBoundary,
+      nominalAlpha: 2 * (1 - normalCdf(efficacyBoundary)),
+      conditionalPower,
+    });
+
+    if (Math.abs(zStatistic) >= efficacyBoundary) {
+      this.rejected = true;
+      if (!final) this.stopReason = "efficacy";
+    } else if (conditionalPower !== null && conditionalPower < this.design.futilityPower) {
+      this.stopReason = "futility";
+    }
+    return this.stopReason;
+  }
+
+  /**
+   * Results once the trial loop has ended. `otherwise` is why it ended when no
+   * boundary stopped it (budget, interrupt, or all planned trials done).
+   */
+  finish(stoppedAtTrial: number, otherwise: StoppingReason): SequentialResults {
+    return {
+      design: this.design,
+      plannedTrials: this.plannedTrials,
+      stoppedAtTrial,
+      reason: this.stopReason ?? otherwise,
+      rejected: this.rejected,
+      boundaryConstant: this.boundaryConstant,
+      looks: [...this.looks],
+    };
+  }
+}
+
+/**
+ * Factory function to create a SequentialMonitor for a planned study size.
+ */
+export function createSequentialMonitor(design: SequentialDesign, plannedTrials: number): SequentialMonitor {
+  return new SequentialMonitor(design, plannedTrials);
+}
@@ -0,0 +1,186 @@
+/**
+ * Skip Policy - Decide whether to pay for an endpoint given its uptime
+ *
+ * Two policies:
+ * - fixed: skip when uptime is below the category's `minUptime` (default 70%)
+ * - expected-value: skip when the expected burn, price × (1 − uptime), exceeds
+ *   the expected net value of the data, uptime × (dataValue − price). This
+ *   is the same as skipping when price > uptime × dataValue, so cheap
+ *   endpoints and valuable data tolerate lower uptime.
+ *
+ * Both policies record the expected-value numbers behind every decision,
+ * including the reliability check cost already paid to make it. That cost is
+ * sunk by the time the decision is made (and 0 on a cache hit), so it only
+ * enters `netExpectedSavingsUsdc`, never the decision itself.
+ */
+
+import type { Endpoint } from "./config.js";
+
+export type DataCategory = "pool" | "whale" | "sentiment";
+
+export const DATA_CATEGORIES: readonly DataCategory[] = ["pool", "whale", "sentiment"];
+
+export type SkipPolicyMode = "fixed" | "expected-value";
+
+export interface CategoryPolicy {
+  minUptime: number;            // 0-1, used by the fixed policy
+  missingDataValueUsdc: number; // What one successful response is worth to the agent
+}
+
+export interface SkipPolicyConfig {
+  mode: SkipPolicyMode;
+  categories: Record<DataCategory, CategoryPolicy>;
+}
+
+export interface SkipDecision {
+  policy: SkipPolicyMode;
+  category: DataCategory;
+  priceUsdc: number;
+  uptime: number;                  // 0-1; 0 when the endpoint is currently down
+  expectedBurnUsdc: number;        // price × (1 − uptime)
+  expectedDataValueUsdc: number;   // uptime × (dataValue − price)
+  checkCostUsdc: number;           // Already paid for the check behind this decision
+  netExpectedSavingsUsdc: number;  // Expected gain of the decision over always querying, minus the check
+  skip: boolean;
+  reason: string | null;
+}
+
+// Uptime below which the fixed policy skips
+export const DEFAULT_RELIABILITY_THRESHOLD = 0.70;
+
+const DEFAULT_MISSING_DATA_VALUE_USDC: Record<DataCategory, number> = {
+  pool: 0.10,      // Pool data drives the allocation itself
+  whale: 0.08,
+  sentiment: 0.06,
+};
+
+/**
+ * Default policy: fixed 70% cutoff for every category.
+ */
+export function createSkipPolicyConfig(
+  overrides: {
+    mode?: SkipPolicyMode;
+    minUptime?: Partial<Record<DataCategory, number>>;
+    missingDataValueUsdc?: Partial<Record<DataCategory, number>>;
+  } = {}
+): SkipPolicyConfig {
+  const categories = {} as Record<DataCategory, CategoryPolicy>;
+  for (const category of DATA_CATEGORIES) {
+    categories[category] = {
+      minUptime: overrides.minUptime?.[category] ?? DEFAULT_RELIABILITY_THRESHOLD,
+      missingDataValueUsdc:
+        overrides.missingDataValueUsdc?.[category] ?? DEFAULT_MISSING_DATA_VALUE_USDC[category],
+    };
+  }
+  return { mode: overrides.mode ?? "fixed", categories };
+}
+
+/**
+ * Parse a policy name; undefined passes through.
+ */
+export function parseSkipPolicyMode(value: string | undefined): SkipPolicyMode | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  if (value === "fixed" || value === "expected-value") {
+    return value;
+  }
+  throw new Error(`Invalid skip policy: ${value}. Valid options: fixed, expected-value`);
+}
+
+/**
+ * Parse "pool:0.1,whale:0.08" into per-category values. Unknown categories throw.
+ */
+export function parseCategoryValues(value: string): Partial<Record<DataCategory, number>> {
+  const result: Partial<Record<DataCategory, number>> = {};
+  for (const pair of value.split(",").map((p) => p.trim()).filter(Boolean)) {
+    const [name, raw] = pair.split(":");
+    if (!DATA_CATEGORIES.includes(name as DataCategory)) {
+      throw new Error(`Unknown data category: ${name}. Valid options: ${DATA_CATEGORIES.join(", ")}`);
+    }
+    const parsed = parseFloat(raw);
+    if (!Number.isFinite(parsed) || parsed < 0) {
+      throw new Error(`Invalid value for ${name}: ${raw}`);
+    }
+    result[name as DataCategory] = parsed;
+  }
+  return result;
+}
+
+/**
+ * Which kind of data an endpoint serves, using the same URL and category
+ * rules the agent uses to route queries.
+ */
+export function classifyEndpointCategory(endpoint: Endpoint): DataCategory {
+  const url = endpoint.url;
+  if (
+    endpoint.category === "whale" ||
+    url.includes("whale") || url.includes("movements") || url.includes("large-transactions")
+  ) {
+    return "whale";
+  }
+  if (endpoint.category === "sentiment" || url.includes("sentiment") || url.includes("analysis")) {
+    return "sentiment";
+  }
+  return "pool";
+}
+
+/**
+ * Decide whether to skip an endpoint and record the numbers behind the decision.
+ *
+ * @param policy - Skip policy configuration
+ * @param endpoint - Endpoint being considered (price and category)
+ * @param uptime - Reported uptime, 0-1
+ * @param working - Whether the endpoint is currently up; a down endpoint counts as 0 uptime
+ * @param checkCostUsdc - What the reliability check behind this decision cost
+ */
+export function decideSkip(
+  policy: SkipPolicyConfig,
+  endpoint: Endpoint,
+  uptime: number,
+  working: boolean,
+  checkCostUsdc: number
+): SkipDecision {
+  const category = classifyEndpointCategory(endpoint);
+  const { minUptime, missingDataValueUsdc } = policy.categories[category];
+  const price = endpoint.priceUsdc;
+  const effectiveUptime = working ? Math.min(Math.max(uptime, 0), 1) : 0;
+
+  const expectedBurnUsdc = price * (1 - effectiveUptime);
+  const expectedDataValueUsdc = effectiveUptime * (missingDataValueUsdc - price);
+
+  let skip: boolean;
+  let reason: string | null = null;
+  if (!working) {
+    skip = true;
+    reason = "Endpoint currently not working";
+  } else if (policy.mode === "fixed") {
+    skip = effectiveUptime < minUptime;
+    if (skip) {
+      reason = `Low uptime: ${(effectiveUptime * 100).toFixed(1)}% < ${minUptime * 100}%`;
+    }
+  } else {
+    skip = expectedBurnUsdc > expectedDataValueUsdc;
+    if (skip) {
+      reason =
+        `Expected burn $${expectedBurnUsdc.toFixed(4)} > expected data value ` +
+        `$${expectedDataValueUsdc.toFixed(4)} (${category}, uptime ${(effectiveUptime * 100).toFixed(1)}%)`;
+    }
+  }
+
+  // Skipping forgoes the data but avoids the burn; querying is the baseline
+  const decisionGain = skip ? expectedBurnUsdc - expectedDataValueUsdc : 0;
+
+  return {
+    policy: policy.mode,
+    category,
+    priceUsdc: price,
+    uptime: effectiveUptime,
+    expectedBurnUsdc,
+    expectedDataValueUsdc,
+    checkCostUsdc,
+    netExpectedSavingsUsdc: decisionGain - checkCostUsdc,
+    skip,
+    reason,
+  };
+}
@@ -4,16 +4,17 @@
  * Organizes Stage 2 comparison results into comprehensive folder structure with:
  * - README.md with methodology + comparison analysis
  * - comparison-summary.json with high-level metrics
- * - endpoint-comparisons.json with per-endpoint comparisons
+ * - endpoint-comparisons.json with per-endpoint comparisons (and shadow probes)
  * - allocations.json with both allocation decisions
  * - no-zauth-results.json with detailed no-zauth mode results
  * - with-zauth-results.json with detailed with-zauth mode results
  */
 
-import type { Stage2Result } from "./types.js";
+import type { ProportionEstimate, Stage2Result } from "./types.js";
 import type { Config, Network } from "./config.js";
 import * as fs from "fs/promises";
 import * as path from "path";
+import { PAYMENT_OUTCOME_KINDS } from "./payment-outcome.js";
 
 export interface Stage2OutputPaths {
   folderPath: string;
@@ -224,6 +225,79 @@ export function generateStage2ReadMe(
   sections.push(`**Trading Recommendation:** ${allocationComparison.withZauth.poolId}`);
   sections.push(`**Reasoning:** ${allocationComparison.withZauth.reasoning}`);
   sections.push('');
+
+  // Burn by Payment Outcome
+  sections.push('### Burn by Payment Outcome');
+  sections.push('');
+  sections.push('| Outcome | No-Zauth | With-Zauth |');
+  sections.push('|---------|----------|------------|');
+  for (const kind of PAYMENT_OUTCOME_KINDS) {
+    sections.push(`| ${kind} | $${noZauthResults.burnByOutcome[kind].toFixed(3)} | $${withZauthResults.burnByOutcome[kind].toFixed(3)} |`);
+  }
+  sections.push('');
+
+  // Price drift between discovery and payment
+  const drifted = result.endpointComparisons
+    .map(c => ({ name: c.endpoint.name, drift: c.noZauth.priceDrift ?? c.withZauth.priceDrift }))
+    .filter(d => d.drift?.drifted);
+  const formatDrift = (value: number | null | undefined) =>
+    value === null || value === undefined ? '-' : `${value >= 0 ? '+' : ''}$${value.toFixed(6)}`;
+  sections.push('### Price Drift');
+  sections.push('');
+  sections.push(`**${drifted.length} of ${result.endpointComparisons.length}** endpoints charged a price different from Bazaar or the Stage 1 402 response. ` +
+    'Spend and burn use the amount actually signed in the payment payload.');
+  sections.push('');
+  if (drifted.length > 0) {
+    sections.push('| Endpoint | Bazaar | Stage 1 402 | Charged | Stage 1 → Charged | Bazaar → Charged |');
+    sections.push('|----------|--------|-------------|---------|-------------------|------------------|');
+    for (const { name, drift } of drifted) {
+      sections.push(
+        `| ${name} | $${drift!.bazaarPriceUsdc.toFixed(6)} | ` +
+        `${drift!.stage1PriceUsdc === null ? '-' : `$${drift!.stage1PriceUsdc.toFixed(6)}`} | ` +
+        `${drift!.chargedUsdc === null ? '-' : `$${drift!.chargedUsdc.toFixed(6)}`} | ` +
+        `${formatDrift(drift!.stage1ToChargedUsdc)} | ${formatDrift(drift!.bazaarToChargedUsdc)} |`
+      );
+    }
+    sections.push('');
+  }
+
+  // Shadow probes
+  const shadow = result.shadowProbes;
+  if (shadow) {
+    const formatEstimate = (e: ProportionEstimate | null) =>
+      e === null ? 'n/a (no probes)' :
+      `${(e.estimate * 100).toFixed(1)}% (${e.approximate ? 'approximate ' : ''}95% CI ${(e.ci95[0] * 100).toFixed(1)}%-${(e.ci95[1] * 100).toFixed(1)}%)`;
+    sections.push('### Shadow Probes');
+    sections.push('');
+    sections.push(`With-Zauth skipped **${shadow.skipped}** endpoints. **${shadow.probed}** of them were paid for anyway ` +
+      `(sample rate ${(shadow.sampleRate * 100).toFixed(0)}%, $${shadow.spentUsdc.toFixed(3)} of a $${shadow.budgetUsdc.toFixed(3)} shadow budget). ` +
+      'Probe spend is tracked separately and is not in either mode\'s spend or burn.');
+    sections.push('');
+    sections.push('| | Endpoint Failed | Endpoint Worked |');
+    sections.push('|---|---|---|');
+    sections.push(`| **Skipped (probed)** | ${shadow.probesFailed} true skips | ${shadow.probesSucceeded} false skips |`);
+    sections.push(`| **Queried** | ${shadow.falsePasses} false passes | ${shadow.truePasses} true passes |`);
+    sections.push('');
+    sections.push(`- **Precision** (skipped endpoints that fail): ${formatEstimate(shadow.precision)}`);
+    sections.push(`- **Recall** (failing endpoints that get skipped): ${formatEstimate(shadow.recall)}`);
+    sections.push('');
+    sections.push('Precision uses a Wilson interval on the probed sample. Recall applies that rate to every skip, ' +
+      'so its interval is approximate: it only reflects the probe sample and ignores the sampling error in the ' +
+      'false-pass count, which makes it too narrow.');
+    sections.push('');
+  }
+
+  // Settlement receipts
+  const paidQueries = result.endpointComparisons
+    .flatMap(c => [c.noZauth, c.withZauth, ...(c.shadowProbe ? [c.shadowProbe] : [])])
+    .filter(q => q.spent > 0 && !q.skippedByZauth);
+  const receiptsCaptured = paidQueries.filter(q => q.receipt).length;
+  sections.push('### Settlement Receipts');
+  sections.push('');
+  sections.push(`Transaction hashes were captured for **${receiptsCaptured} of ${paidQueries.length}** paid calls. ` +
+    'Receipts (tx hash, network, payer, amount, timestamp) are recorded per call in `endpoint-comparisons.json` ' +
+    'so claimed burn can be audited against chain data.');
+  sections.push('');
   sections.push('---');
   sections.push('');
 
@@ -236,6 +310,9 @@ export function generateStage2ReadMe(
   sections.push(`npx tsx src/index.ts --agent --stage=2 --real \\`);
   sections.push(`  --budget=${comparisonSummary.budgetUsed.toFixed(2)} \\`);
   sections.push(`  --load-stage1=${stage1Path} \\`);
+  if (result.shadowProbes) {
+    sections.push(`  --shadow-budget=${result.shadowProbes.budgetUsdc.toFixed(2)} --shadow-rate=${result.shadowProbes.sampleRate} \\`);
+  }
   sections.push(`  --network=${network}`);
   sections.push('```');
   sections.push('');
@@ -269,7 +346,7 @@ export async function exportStage2Results(
   // Export comparison summary
   await fs.writeFile(
     paths.comparisonSummaryPath,
-    JSON.stringify(result.comparisonSummary, null, 2),
+    JSON.stringify({ ...result.comparisonSummary, shadowProbes: result.shadowProbes }, null, 2),
     'utf-8'
   );
 
@@ -293,6 +370,9 @@ export async function exportStage2Results(
             burn: c.noZauth.burn,
             latency: c.noZauth.latency,
             validationUsed: c.noZauth.validationResult.schemaUsed,
+            outcome: c.noZauth.outcome,
+            receipt: c.noZauth.receipt,
+            priceDrift: c.noZauth.priceDrift,
             error: c.noZauth.error
           },
           withZauth: {
@@ -301,10 +381,24 @@ export async function exportStage2Results(
             burn: c.withZauth.burn,
             zauthCost: c.withZauth.zauthCost,
             skippedByZauth: c.withZauth.skippedByZauth,
+            skipDecision: c.withZauth.skipDecision,
             latency: c.withZauth.latency,
             validationUsed: c.withZauth.validationResult.schemaUsed,
+            outcome: c.withZauth.outcome,
+            receipt: c.withZauth.receipt,
+            priceDrift: c.withZauth.priceDrift,
             error: c.withZauth.error
           },
+          shadowProbe: c.shadowProbe && {
+            success: c.shadowProbe.success,
+            spent: c.shadowProbe.spent,
+            burn: c.shadowProbe.burn,
+            latency: c.shadowProbe.latency,
+            validationUsed: c.shadowProbe.validationResult.schemaUsed,
+            outcome: c.shadowProbe.outcome,
+            receipt: c.shadowProbe.receipt,
+            error: c.shadowProbe.error
+          },
           burnSavings: c.burnSavings,
           netSavings: c.netSavings
         }))
@@ -332,6 +426,7 @@ export async function exportStage2Results(
           totalSpent: result.noZauthResults.totalSpent,
           totalBurn: result.noZauthResults.totalBurn,
           burnRate: result.noZauthResults.burnRate,
+          burnByOutcome: result.noZauthResults.burnByOutcome,
           zauthCost: result.noZauthResults.zauthCost,
           queriesAttempted: result.noZauthResults.queriesAttempted,
           queriesFailed: result.noZauthResults.queriesFailed
@@ -356,6 +451,7 @@ export async function exportStage2Results(
           totalSpent: result.withZauthResults.totalSpent,
           totalBurn: result.withZauthResults.totalBurn,
           burnRate: result.withZauthResults.burnRate,
+          burnByOutcome: result.withZauthResults.burnByOutcome,
           zauthCost: result.withZauthResults.zauthCost,
           queriesAttempted: result.withZauthResults.queriesAttempted,
           queriesFailed: result.withZauthResults.queriesFailed
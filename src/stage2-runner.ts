@@ -5,30 +5,64 @@ import type {
   EndpointComparison,
   ModeResults,
   ComparisonSummary,
-  AllocationComparison
+  AllocationComparison,
+  ShadowProbeSummary
 } from "./types.js";
 import type { Config, Network } from "./config.js";
 import { YieldOptimizerAgent } from "./yield-agent.js";
 import { createSpendTracker, type SpendTracker } from "./spend-tracker.js";
 import { extractPoolData, extractWhaleData, extractSentimentData } from "./stage2-mapper.js";
+import { emptyBurnByOutcome } from "./payment-outcome.js";
+import { createZauthOracle } from "./reliability-oracle.js";
+import { wilsonInterval } from "./statistics.js";
+import { testPrepayment } from "./prepayment-tester.js";
 
 /**
  * Stage 2: Real Yield Optimization Runner
  *
  * Executes interleaved comparison of no-zauth vs with-zauth modes
- * on the same set of endpoints from Stage 1
+ * on the same set of endpoints from Stage 1.
+ *
+ * With a shadow-probe budget, a random sample of the endpoints with-zauth
+ * skips is paid for anyway, so the skip decision can be scored in real mode.
+ * Probe spend has its own SpendTracker and never enters either mode's totals.
  */
 
+export interface Stage2Options {
+  shadowProbeBudget?: number;  // USDC for shadow probes (default: 0, off)
+  shadowProbeRate?: number;    // Chance each skipped endpoint is probed (default: 0.5)
+  random?: () => number;       // Sampling source (default: Math.random)
+}
+
+interface ShadowProber {
+  agent: YieldOptimizerAgent;
+  spendTracker: SpendTracker;
+  rate: number;
+  random: () => number;
+}
+
 export async function runStage2(
   endpoints: EnrichedPrepaymentTestResult[],
   budget: number,
   network: Network,
   config: Config,
   x402Client: any,
-  zauthClient: any
+  zauthClient: any,
+  options: Stage2Options = {}
 ): Promise<Stage2Result> {
   const startTime = Date.now();
 
+  // Shadow probes pay for skipped endpoints with a plain no-zauth agent
+  const shadowProbeBudget = options.shadowProbeBudget ?? 0;
+  const shadowProber: ShadowProber | undefined = shadowProbeBudget > 0
+    ? {
+        agent: new YieldOptimizerAgent('no-zauth', config, x402Client, undefined, 'real', network),
+        spendTracker: createSpendTracker(shadowProbeBudget),
+        rate: options.shadowProbeRate ?? 0.5,
+        random: options.random ?? Math.random
+      }
+    : undefined;
+
   // Filter to 402-enabled endpoints only
   const paymentEndpoints = endpoints.filter(e => e.requires402);
 
@@ -54,7 +88,8 @@ export async function runStage2(
     network,
     config,
     x402Client,
-    zauthClient
+    zauthClient,
+    shadowProber
   );
 
   const whaleComparisons = await runCategoryComparison(
@@ -64,7 +99,8 @@ export async function runStage2(
     network,
     config,
     x402Client,
-    zauthClient
+    zauthClient,
+    shadowProber
   );
 
   const sentimentComparisons = await runCategoryComparison(
@@ -74,7 +110,8 @@ export async function runStage2(
     network,
     config,
     x402Client,
-    zauthClient
+    zauthClient,
+    shadowProber
   );
 
   const allComparisons = [...poolComparisons, ...whaleComparisons, ...sentimentComparisons];
@@ -92,6 +129,10 @@ export async function runStage2(
     withZauthResults
   );
 
+  const shadowProbes = shadowProber
+    ? summarizeShadowProbes(allComparisons, shadowProber)
+    : undefined;
+
   const durationSeconds = (Date.now() - startTime) / 1000;
 
   return {
@@ -100,6 +141,7 @@ export async function runStage2(
     endpointComparisons: allComparisons,
     comparisonSummary,
     allocationComparison,
+    shadowProbes,
     durationSeconds
   };
 }
@@ -114,7 +156,8 @@ async function runCategoryComparison(
   network: Network,
   config: Config,
   x402Client: any,
-  zauthClient: any
+  zauthClient: any,
+  shadowProber?: ShadowProber
 ): Promise<EndpointComparison[]> {
   if (endpoints.length === 0) {
     console.log(`\n[${category}] No endpoints available`);
@@ -148,7 +191,7 @@ async function runCategoryComparison(
     'with-zauth',
     config,
     x402Client,
-    zauthClient,
+    createZauthOracle(zauthClient, { name: 'with-zauth', policy: config.skipPolicy }),
     'real',
     network
   );
@@ -182,6 +225,17 @@ async function runCategoryComparison(
     const withZauthStatus = withZauthResult.success ? '✓' : '✗';
     console.log(`\r[${category}] ${progress}   With-zauth: ${withZauthStatus} (spent: $${withZauthResult.spent.toFixed(3)}, burn: $${withZauthResult.burn.toFixed(3)}, zauth: $${(withZauthResult.zauthCost || 0).toFixed(3)})`);
 
+    // Shadow probe: pay for a sampled skip anyway to learn whether it would have worked
+    let shadowProbe: QueryResult | undefined;
+    if (withZauthResult.skippedByZauth && shadowProber && shadowProber.random() < shadowProber.rate) {
+      const probePrice = await currentPrice(endpoint);
+      if (!shadowProber.spendTracker.canSpend(probePrice)) {
+        console.log(`[${category}] ${progress}   Shadow probe: not probed (price $${probePrice.toFixed(3)} > shadow budget remaining $${shadowProber.spendTracker.getRemainingBudget().toFixed(3)})`);
+      } else {
+        shadowProbe = await runShadowProbe(shadowProber, endpoint, category, progress);
+      }
+    }
+
     // Calculate savings
     const burnSavings = noZauthResult.burn - withZauthResult.burn;
     const netSavings = burnSavings - (withZauthResult.zauthCost || 0);
@@ -193,7 +247,8 @@ async function runCategoryComparison(
       noZauth: noZauthResult,
       withZauth: withZauthResult,
       burnSavings,
-      netSavings
+      netSavings,
+      shadowProbe
     });
   }
 
@@ -228,6 +283,13 @@ function extractModeResults(
   const queriesFailed = queryResults.filter(r => !r.success).length;
   const burnRate = totalSpent > 0 ? totalBurn / totalSpent : 0;
 
+  const burnByOutcome = emptyBurnByOutcome();
+  for (const r of queryResults) {
+    if (r.outcome && r.burn > 0) {
+      burnByOutcome[r.outcome.kind] += r.burn;
+    }
+  }
+
   // Calculate allocation (simplified for now - just pick best pool by APY)
   const allocation = calculateAllocation(poolData, whaleData, sentimentData);
 
@@ -236,6 +298,7 @@ function extractModeResults(
     totalSpent,
     totalBurn,
     burnRate,
+    burnByOutcome,
     zauthCost,
     queriesAttempted,
     queriesFailed,
@@ -362,6 +425,88 @@ function generateComparisonSummary(
   };
 }
 
+/**
+ * Price the endpoint asks for now, read from an unpaid 402 request. Stage 1's
+ * price can be stale, so the shadow budget is checked against the higher of
+ * the two before paying.
+ */
+async function currentPrice(endpoint: EnrichedPrepaymentTestResult): Promise<number> {
+  const listed = endpoint.requested402Price || endpoint.price || 0.01;
+  const live = await testPrepayment(endpoint.url);
+  return Math.max(listed, live.requested402Price ?? 0);
+}
+
+/**
+ * Pay for one skipped endpoint with the shadow agent and record the spend.
+ */
+async function runShadowProbe(
+  shadowProber: ShadowProber,
+  endpoint: EnrichedPrepaymentTestResult,
+  category: string,
+  progress: string
+): Promise<QueryResult> {
+  process.stdout.write(`[${category}] ${progress}   Shadow probe: querying...`);
+  const shadowProbe = await shadowProber.agent.queryWithValidation(endpoint);
+  shadowProber.spendTracker.recordSpend(shadowProbe.spent);
+  const shadowStatus = shadowProbe.success ? '✓ (false skip)' : '✗ (true skip)';
+  console.log(`\r[${category}] ${progress}   Shadow probe: ${shadowStatus} (spent: $${shadowProbe.spent.toFixed(3)}, shadow budget remaining: $${shadowProber.spendTracker.getRemainingBudget().toFixed(3)})`);
+  return shadowProbe;
+}
+
+/**
+ * Scores the with-zauth skip decision from shadow probes.
+ *
+ * Precision, P(fails | skipped), comes straight from the probed sample with a
+ * Wilson interval. Recall, P(skipped | fails), scales that rate up to every
+ * skip and compares it with the observed false passes; its interval carries
+ * the precision bounds through, so it ignores the (smaller) sampling error in
+ * the false-pass count.
+ */
+function summarizeShadowProbes(
+  comparisons: EndpointComparison[],
+  shadowProber: ShadowProber
+): ShadowProbeSummary {
+  const skipped = comparisons.filter(c => c.withZauth.skippedByZauth);
+  const probes = skipped.flatMap(c => (c.shadowProbe ? [c.shadowProbe] : []));
+  const probesFailed = probes.filter(p => !p.success).length;
+  const passed = comparisons.filter(c => !c.withZauth.skippedByZauth);
+  const falsePasses = passed.filter(c => !c.withZauth.success).length;
+
+  let precision: ShadowProbeSummary['precision'] = null;
+  let recall: ShadowProbeSummary['recall'] = null;
+  if (probes.length > 0) {
+    const [precisionLow, precisionHigh] = wilsonInterval(probesFailed, probes.length);
+    precision = {
+      estimate: probesFailed / probes.length,
+      ci95: [precisionLow, precisionHigh]
+    };
+
+    const recallAt = (p: number) => {
+      const trueSkips = skipped.length * p;
+      return trueSkips + falsePasses > 0 ? trueSkips / (trueSkips + falsePasses) : 0;
+    };
+    recall = {
+      estimate: recallAt(precision.estimate),
+      ci95: [recallAt(precisionLow), recallAt(precisionHigh)],
+      approximate: true
+    };
+  }
+
+  return {
+    budgetUsdc: shadowProber.spendTracker.getBudgetLimit(),
+    spentUsdc: shadowProber.spendTracker.getSpentAmount(),
+    sampleRate: shadowProber.rate,
+    skipped: skipped.length,
+    probed: probes.length,
+    probesFailed,
+    probesSucceeded: probes.length - probesFailed,
+    truePasses: passed.length - falsePasses,
+    falsePasses,
+    precision,
+    recall
+  };
+}
+
 /**
  * Generates allocation comparison
  */
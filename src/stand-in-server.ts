@@ -0,0 +1,402 @@
+/**
+ * Local x402 Stand-in Server
+ *
+ * A small HTTP server that speaks the real 402 flow so the x402 clients can be
+ * exercised end-to-end without spending USDC:
+ * 1. Unpaid request → 402 with a base64 `payment-required` header
+ * 2. Retried request carrying a payment payload → scripted outcome per route
+ *
+ * Each route has a failure profile (settlement timeout, 500 after payment,
+ * empty data, garbage body, slow response) so `testPrepayment`,
+ * `RealX402Client.fetchEndpoint` and `runStage2` can be run offline.
+ *
+ * With `facilitatorUrl` set, paid requests are verified and settled through a
+ * facilitator (see facilitator-simulator.ts) before the route profile applies.
+ */
+
+import * as http from "http";
+import type { AddressInfo } from "net";
+import type {
+  PaymentRequiredHeader,
+  PaymentRequirement,
+  EnrichedPrepaymentTestResult,
+} from "./types.js";
+import type { EndpointCategory } from "./real-endpoints.js";
+import {
+  generateMockPoolData,
+  generateMockWhaleData,
+  generateMockSentimentData,
+} from "./endpoints.js";
+import { testPrepaymentBatch } from "./prepayment-tester.js";
+
+// Same USDC contract the payment parser recognises on Base mainnet
+const BASE_USDC_ADDRESS = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const DEFAULT_PAY_TO = "0xD34411a70EffbDd000c529bbF572082ffDcF1794";
+
+export type StandInProfile =
+  | "success"              // 200 with a valid data array
+  | "settlement-timeout"   // 402 again with settle_exact_node_failure (payment settled anyway)
+  | "error-after-payment"  // 500 after the payment settled
+  | "empty-data"           // 200 with `data: []`
+  | "garbage"              // 200 with a non-JSON body
+  | "slow";                // Valid response after `delayMs`
+
+export interface StandInRoute {
+  path: string;
+  name: string;
+  category: EndpointCategory;
+  priceUsdc: number;
+  profile: StandInProfile;
+  delayMs?: number;   // Response delay for the paid request (default: 3000 for "slow", else 0)
+  body?: unknown;     // Overrides the generated success body
+}
+
+export interface StandInServerOptions {
+  port?: number;                // 0 = pick a free port (default)
+  host?: string;                // Default: 127.0.0.1
+  network?: string;             // CAIP-2 network in the 402 requirements (default: eip155:8453)
+  asset?: string;               // Token contract (default: Base USDC)
+  payTo?: string;               // Recipient address in the 402 requirements
+  maxTimeoutSeconds?: number;   // Advertised in the 402 requirements (default: 60)
+  facilitatorUrl?: string;      // Settle paid requests through this facilitator instead of scripting it
+  routes?: StandInRoute[];
+  verbose?: boolean;
+}
+
+export interface StandInRequestLogEntry {
+  timestamp: string;
+  path: string;
+  paid: boolean;
+  status: number;
+  profile: StandInProfile | null;
+  payer?: string;
+  transaction?: string;
+}
+
+export interface StandInServer {
+  url: string;
+  routes: StandInRoute[];
+  requestLog: StandInRequestLogEntry[];
+  close(): Promise<void>;
+}
+
+/**
+ * Default route set: one healthy endpoint per category plus one route per
+ * failure profile.
+ */
+export const DEFAULT_STAND_IN_ROUTES: StandInRoute[] = [
+  { path: "/pools", name: "Stand-in Pools", category: "pool", priceUsdc: 0.01, profile: "success" },
+  { path: "/whale-moves", name: "Stand-in Whale Tracking", category: "whale", priceUsdc: 0.01, profile: "success" },
+  { path: "/sentiment", name: "Stand-in Sentiment", category: "sentiment", priceUsdc: 0.01, profile: "success" },
+  { path: "/pools/settle-timeout", name: "Stand-in Pools (settle timeout)", category: "pool", priceUsdc: 0.002, profile: "settlement-timeout" },
+  { path: "/whale-moves/server-error", name: "Stand-in Whale (500 after payment)", category: "whale", priceUsdc: 0.005, profile: "error-after-payment" },
+  { path: "/sentiment/empty", name: "Stand-in Sentiment (empty data)", category: "sentiment", priceUsdc: 0.005, profile: "empty-data" },
+  { path: "/pools/garbage", name: "Stand-in Pools (garbage body)", category: "pool", priceUsdc: 0.005, profile: "garbage" },
+  { path: "/sentiment/slow", name: "Stand-in Sentiment (slow)", category: "sentiment", priceUsdc: 0.01, profile: "slow", delayMs: 3000 },
+];
+
+/**
+ * Build the PaymentRequiredHeader advertised for a route.
+ * `extra.name`/`extra.version` are the EIP-712 domain the exact EVM scheme signs against.
+ */
+export function buildPaymentRequired(
+  route: StandInRoute,
+  resourceUrl: string,
+  options: StandInServerOptions = {}
+): PaymentRequiredHeader {
+  const amount = Math.round(route.priceUsdc * 1_000_000).toString();
+  const requirement: PaymentRequirement = {
+    scheme: "exact",
+    network: options.network ?? "eip155:8453",
+    amount,
+    amountUsdc: route.priceUsdc,
+    asset: options.asset ?? BASE_USDC_ADDRESS,
+    payTo: options.payTo ?? DEFAULT_PAY_TO,
+    maxTimeoutSeconds: options.maxTimeoutSeconds ?? 60,
+    extra: { name: "USD Coin", version: "2" },
+  };
+
+  return {
+    x402Version: 2,
+    error: "Payment required",
+    resource: {
+      url: resourceUrl,
+      description: route.name,
+      mimeType: "application/json",
+    },
+    accepts: [requirement],
+  };
+}
+
+/**
+ * Start the stand-in server. Resolves once it is listening.
+ */
+export async function startStandInServer(
+  options: StandInServerOptions = {}
+): Promise<StandInServer> {
+  const routes = options.routes ?? DEFAULT_STAND_IN_ROUTES;
+  const host = options.host ?? "127.0.0.1";
+  const requestLog: StandInRequestLogEntry[] = [];
+  let baseUrl = "";
+  let txCounter = 0;
+
+  const server = http.createServer(async (req, res) => {
+    const path = (req.url ?? "/").split("?")[0];
+    const route = routes.find(r => r.path === path);
+
+    if (!route) {
+      sendJson(res, 404, { error: "Not found" });
+      requestLog.push({ timestamp: new Date().toISOString(), path, paid: false, status: 404, profile: null });
+      return;
+    }
+
+    const paymentRequired = buildPaymentRequired(route, `${baseUrl}${route.path}`, options);
+    const paymentRequiredHeader = encodeBase64Json(paymentRequired);
+    const signature = headerValue(req, "payment-signature") ?? headerValue(req, "x-payment");
+
+    // Unpaid request: advertise payment requirements
+    if (!signature) {
+      sendJson(res, 402, { error: "Payment required" }, { "payment-required": paymentRequiredHeader });
+      log(path, false, 402, route.profile);
+      return;
+    }
+
+    const payload = decodeBase64Json(signature);
+    if (!payload) {
+      sendJson(res, 402, { error: "Invalid payment payload" }, { "payment-required": paymentRequiredHeader });
+      log(path, false, 402, route.profile);
+      return;
+    }
+
+    const payer: string | undefined = payload?.payload?.authorization?.from;
+    let transaction = fakeTransactionHash(++txCounter);
+
+    if (options.facilitatorUrl) {
+      const verify = await verifyWithFacilitator(options.facilitatorUrl, payload, paymentRequired.accepts[0]);
+      if (!verify.ok) {
+        // Nothing was broadcast: the client should see an ordinary pre-settlement refusal
+        sendJson(
+          res,
+          402,
+          { error: "Payment verification failed", details: `Facilitator verify failed (${verify.status}): ${verify.text}` },
+          { "payment-required": paymentRequiredHeader }
+        );
+        log(path, true, 402, route.profile, payer);
+        return;
+      }
+
+      const settle = await settleWithFacilitator(options.facilitatorUrl, payload, paymentRequired.accepts[0]);
+      if (!settle.ok) {
+        sendJson(
+          res,
+          402,
+          { error: "Settlement failed", details: `Facilitator settle failed (${settle.status}): ${settle.text}` },
+          { "payment-required": paymentRequiredHeader }
+        );
+        log(path, true, 402, route.profile, payer, settle.transaction);
+        return;
+      }
+      transaction = settle.transaction ?? transaction;
+    }
+
+    const settlement = encodeBase64Json({
+      success: true,
+      transaction,
+      network: paymentRequired.accepts[0].network,
+      payer,
+    });
+
+    const delayMs = route.delayMs ?? (route.profile === "slow" ? 3000 : 0);
+    if (delayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+
+    switch (route.profile) {
+      case "settlement-timeout": {
+        // Mirrors the facilitator race in 402-payment-timeout-analysis.md:
+        // the transfer lands on-chain but the resource server sees a failed settle.
+        const details = JSON.stringify({
+          errorMessage: "transaction did not confirm in time: context deadline exceeded",
+          errorReason: "settle_exact_node_failure",
+          network: paymentRequired.accepts[0].network,
+          payer,
+          success: false,
+          transaction,
+        });
+        sendJson(
+          res,
+          402,
+          { error: "Settlement failed", details: `Facilitator settle failed (500): ${details}` },
+          { "payment-required": paymentRequiredHeader }
+        );
+        log(path, true, 402, route.profile, payer, transaction);
+        return;
+      }
+      case "error-after-payment":
+        sendJson(res, 500, { success: false, error: "Internal server error" }, { "payment-response": settlement });
+        log(path, true, 500, route.profile, payer, transaction);
+        return;
+      case "empty-data":
+        sendJson(res, 200, { success: true, data: [] }, { "payment-response": settlement });
+        log(path, true, 200, route.profile, payer, transaction);
+        return;
+      case "garbage":
+        res.writeHead(200, { "Content-Type": "text/html", "payment-response": settlement });
+        res.end("<html><body>502 Bad Gateway</body></html>");
+        log(path, true, 200, route.profile, payer, transaction);
+        return;
+      case "success":
+      case "slow":
+        sendJson(res, 200, route.body ?? generateRouteBody(route.category), { "payment-response": settlement });
+        log(path, true, 200, route.profile, payer, transaction);
+        return;
+    }
+  });
+
+  function log(
+    path: string,
+    paid: boolean,
+    status: number,
+    profile: StandInProfile,
+    payer?: string,
+    transaction?: string
+  ): void {
+    requestLog.push({ timestamp: new Date().toISOString(), path, paid, status, profile, payer, transaction });
+    if (options.verbose) {
+      console.log(`[Stand-in] ${paid ? "PAID  " : "UNPAID"} ${status} ${path} (${profile})`);
+    }
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, host, () => resolve());
+  });
+
+  const address = server.address() as AddressInfo;
+  baseUrl = `http://${host}:${address.port}`;
+
+  return {
+    url: baseUrl,
+    routes,
+    requestLog,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close(error => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+      }),
+  };
+}
+
+/**
+ * Probe every stand-in route with `testPrepayment` and return Stage 1-shaped
+ * endpoints, ready to hand to `runStage2`.
+ */
+export async function discoverStandInEndpoints(
+  server: StandInServer
+): Promise<EnrichedPrepaymentTestResult[]> {
+  const tests = await testPrepaymentBatch(
+    server.routes.map(r => `${server.url}${r.path}`)
+  );
+
+  return tests.map((test, i) => ({
+    ...test,
+    name: server.routes[i].name,
+    category: server.routes[i].category,
+    price: server.routes[i].priceUsdc,
+  }));
+}
+
+/**
+ * POST the payment to the facilitator's /verify route, as a resource server
+ * does before settling.
+ */
+async function verifyWithFacilitator(
+  facilitatorUrl: string,
+  paymentPayload: unknown,
+  paymentRequirements: PaymentRequirement
+): Promise<{ ok: boolean; status: number; text: string }> {
+  const { ok, status, text, data } = await postToFacilitator(facilitatorUrl, "/verify", paymentPayload, paymentRequirements);
+  return { ok: ok && data?.isValid === true, status, text };
+}
+
+/**
+ * POST the payment to the facilitator's /settle route, as a resource server would.
+ */
+async function settleWithFacilitator(
+  facilitatorUrl: string,
+  paymentPayload: unknown,
+  paymentRequirements: PaymentRequirement
+): Promise<{ ok: boolean; status: number; text: string; transaction?: string }> {
+  const { ok, status, text, data } = await postToFacilitator(facilitatorUrl, "/settle", paymentPayload, paymentRequirements);
+  return { ok: ok && data?.success === true, status, text, transaction: data?.transaction || undefined };
+}
+
+async function postToFacilitator(
+  facilitatorUrl: string,
+  route: "/verify" | "/settle",
+  paymentPayload: unknown,
+  paymentRequirements: PaymentRequirement
+): Promise<{ ok: boolean; status: number; text: string; data?: any }> {
+  try {
+    const response = await fetch(`${facilitatorUrl}${route}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ paymentPayload, paymentRequirements }),
+    });
+    const text = await response.text();
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      // Non-JSON facilitator response is treated as a failure
+    }
+    return { ok: response.ok, status: response.status, text, data };
+  } catch (error) {
+    return {
+      ok: false,
+      status: 0,
+      text: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+function generateRouteBody(category: EndpointCategory): unknown {
+  if (category === "pool") {
+    return { success: true, data: generateMockPoolData() };
+  }
+  if (category === "whale") {
+    return { success: true, data: generateMockWhaleData() };
+  }
+  return { success: true, data: generateMockSentimentData() };
+}
+
+function headerValue(req: http.IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function sendJson(
+  res: http.ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): void {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function encodeBase64Json(value: unknown): string {
+  return Buffer.from(JSON.stringify(value), "utf-8").toString("base64");
+}
+
+function decodeBase64Json(value: string): any | null {
+  try {
+    return JSON.parse(Buffer.from(value, "base64").toString("utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+function fakeTransactionHash(counter: number): string {
+  return `0x${counter.toString(16).padStart(64, "0")}`;
+}
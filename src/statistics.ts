@@ -13,6 +13,15 @@ export function standardDeviation(values: number[]): number {
   return Math.sqrt(variance);
 }
 
+// Bessel-corrected (n - 1) standard deviation, as the t-distribution assumes
+export function sampleStandardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  const sumSquaredDiffs = values.reduce((sum, val) => sum + (val - avg) ** 2, 0);
+  return Math.sqrt(sumSquaredDiffs / (values.length - 1));
+}
+
+// Two-sided Student-t interval for the mean at any confidence level in (0, 1)
 export function confidenceInterval(
   values: number[],
   confidence: number
@@ -20,37 +29,169 @@ export function confidenceInterval(
   if (values.length === 0) return [0, 0];
 
   const avg = mean(values);
-  const stdDev = standardDeviation(values);
   const n = values.length;
+  if (n < 2) return [avg, avg];
 
-  // t-distribution critical value for 95% CI (approximation)
-  // For small samples, use t-distribution; for large samples, converges to z-score
-  const tCritical = getTCriticalValue(n, confidence);
-
-  const marginOfError = tCritical * (stdDev / Math.sqrt(n));
+  const tCritical = studentTQuantile(1 - (1 - confidence) / 2, n - 1);
+  const marginOfError = tCritical * (sampleStandardDeviation(values) / Math.sqrt(n));
 
   return [avg - marginOfError, avg + marginOfError];
 }
 
-function getTCriticalValue(n: number, confidence: number): number {
-  // Simplified t-distribution table for common confidence levels
-  // For 95% confidence interval
-  if (confidence === 0.95) {
-    if (n <= 5) return 2.776;
-    if (n <= 10) return 2.228;
-    if (n <= 20) return 2.086;
-    if (n <= 30) return 2.042;
-    return 1.96; // z-score for large samples
+// Lanczos approximation of ln Γ(x) (g = 7, 9 terms), x > 0
+function logGamma(x: number): number {
+  const coefficients = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028,
+    771.32342877765313, -176.61502916214059, 12.507343278686905,
+    -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+  ];
+  if (x < 0.5) {
+    // Reflection formula
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
   }
-  // For 99% confidence interval
-  if (confidence === 0.99) {
-    if (n <= 5) return 4.604;
-    if (n <= 10) return 3.169;
-    if (n <= 20) return 2.845;
-    if (n <= 30) return 2.750;
-    return 2.576; // z-score for large samples
+  const z = x - 1;
+  let sum = coefficients[0];
+  for (let i = 1; i < coefficients.length; i++) {
+    sum += coefficients[i] / (z + i);
+  }
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+// Continued fraction for the incomplete beta function (modified Lentz)
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const maxIterations = 300;
+  const epsilon = 1e-15;
+  const tiny = 1e-300;
+
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let result = d;
+
+  for (let m = 1; m <= maxIterations; m++) {
+    const m2 = 2 * m;
+
+    // Even step
+    let numerator = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + numerator * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + numerator / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    result *= d * c;
+
+    // Odd step
+    numerator = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + numerator * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + numerator / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    result *= delta;
+
+    if (Math.abs(delta - 1) < epsilon) break;
   }
-  return 1.96; // default to 95% CI z-score
+
+  return result;
+}
+
+/**
+ * Delta-method interval for a ratio of means, mean(numerators) / mean(denominators),
+ * over paired samples. Unlike an average of per-sample ratios it stays defined
+ * when single denominators are 0; only a zero mean denominator leaves it
+ * undefined ([NaN, NaN]).
+ */
+export function ratioOfMeansInterval(
+  numerators: number[],
+  denominators: number[],
+  confidence: number
+): [number, number] {
+  const n = Math.min(numerators.length, denominators.length);
+  const meanDenominator = mean(denominators.slice(0, n));
+  if (n === 0 || meanDenominator === 0) return [NaN, NaN];
+
+  const ratio = mean(numerators.slice(0, n)) / meanDenominator;
+  if (n < 2) return [ratio, ratio];
+
+  // Linearized: Var(ratio) ≈ Var(numerator − ratio × denominator) / (n × mean(denominator)²)
+  const residuals = numerators.slice(0, n).map((x, i) => x - ratio * denominators[i]);
+  const standardError = sampleStandardDeviation(residuals) / (Math.sqrt(n) * Math.abs(meanDenominator));
+  const tCritical = studentTQuantile(1 - (1 - confidence) / 2, n - 1);
+
+  return [ratio - tCritical * standardError, ratio + tCritical * standardError];
+}
+
+// Regularized incomplete beta function I_x(a, b)
+export function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const logFront =
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x);
+  const front = Math.exp(logFront);
+
+  // The continued fraction converges fastest below the mean; use symmetry above it
+  if (x < (a + 1) / (a + b + 2)) {
+    return (front * betaContinuedFraction(x, a, b)) / a;
+  }
+  return 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+// P(T <= t) for Student's t with df degrees of freedom
+export function studentTCdf(t: number, degreesOfFreedom: number): number {
+  if (!Number.isFinite(t)) return t > 0 ? 1 : 0;
+  const tail = 0.5 * incompleteBeta(degreesOfFreedom / (degreesOfFreedom + t * t), degreesOfFreedom / 2, 0.5);
+  return t > 0 ? 1 - tail : tail;
+}
+
+// t such that P(T <= t) = p, found by bisection on the CDF
+export function studentTQuantile(p: number, degreesOfFreedom: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  if (p === 0.5) return 0;
+  if (p < 0.5) return -studentTQuantile(1 - p, degreesOfFreedom);
+
+  let low = 0;
+  let high = 1;
+  while (studentTCdf(high, degreesOfFreedom) < p) {
+    low = high;
+    high *= 2;
+  }
+  for (let i = 0; i < 200 && high - low > 1e-12 * high; i++) {
+    const mid = (low + high) / 2;
+    if (studentTCdf(mid, degreesOfFreedom) < p) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+// Two-sided p-value for a t statistic: P(|T| >= |t|)
+export function twoSidedPValue(tStatistic: number, degreesOfFreedom: number): number {
+  if (degreesOfFreedom <= 0 || Number.isNaN(tStatistic)) return 1;
+  const t = Math.abs(tStatistic);
+  return incompleteBeta(degreesOfFreedom / (degreesOfFreedom + t * t), degreesOfFreedom / 2, 0.5);
+}
+
+// Wilson score interval for a binomial proportion; stays inside [0, 1] for small n
+export function wilsonInterval(
+  successes: number,
+  n: number,
+  z: number = 1.96
+): [number, number] {
+  if (n === 0) return [0, 1];
+
+  const p = successes / n;
+  const z2 = z * z;
+  const center = (p + z2 / (2 * n)) / (1 + z2 / n);
+  const margin = (z / (1 + z2 / n)) * Math.sqrt((p * (1 - p)) / n + z2 / (4 * n * n));
+
+  return [Math.max(0, center - margin), Math.min(1, center + margin)];
 }
 
 export function tTest(
@@ -70,23 +211,21 @@ export function tTest(
   if (n1 === n2) {
     const differences = group1.map((val, i) => val - group2[i]);
     const meanDiff = mean(differences);
-    const stdDevDiff = standardDeviation(differences);
+    const stdDevDiff = sampleStandardDeviation(differences);
 
     if (stdDevDiff === 0) {
-      return { tStatistic: 0, pValue: meanDiff === 0 ? 1 : 0 };
+      return { tStatistic: 0, pValue: meanDiff === 0 || n1 < 2 ? 1 : 0 };
     }
 
     const tStatistic = meanDiff / (stdDevDiff / Math.sqrt(n1));
-
-    // Approximate p-value from t-statistic
-    const pValue = approximatePValue(Math.abs(tStatistic), n1 - 1);
+    const pValue = twoSidedPValue(tStatistic, n1 - 1);
 
     return { tStatistic, pValue };
   }
 
   // Independent samples t-test (fallback)
-  const var1 = standardDeviation(group1) ** 2;
-  const var2 = standardDeviation(group2) ** 2;
+  const var1 = sampleStandardDeviation(group1) ** 2;
+  const var2 = sampleStandardDeviation(group2) ** 2;
   const pooledStdDev = Math.sqrt(var1 / n1 + var2 / n2);
 
   if (pooledStdDev === 0) {
@@ -95,21 +234,11 @@ export function tTest(
 
   const tStatistic = (mean1 - mean2) / pooledStdDev;
   const df = n1 + n2 - 2;
-  const pValue = approximatePValue(Math.abs(tStatistic), df);
+  const pValue = twoSidedPValue(tStatistic, df);
 
   return { tStatistic, pValue };
 }
 
-function approximatePValue(tStatistic: number, degreesOfFreedom: number): number {
-  // Simplified p-value approximation based on t-statistic
-  // This is a rough approximation; for production use a proper statistical library
-
-  if (tStatistic < 1.96) return 0.05; // Not significant at α=0.05
-  if (tStatistic < 2.576) return 0.01; // Significant at α=0.05
-  if (tStatistic < 3.291) return 0.001; // Significant at α=0.01
-  return 0.0001; // Highly significant
-}
-
 export function cohensD(group1: number[], group2: number[]): number {
   if (group1.length === 0 || group2.length === 0) return 0;
 
@@ -139,3 +268,305 @@ export function interpretEffectSize(
   if (absD < 0.8) return "medium";
   return "large";
 }
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26 erf, |error| < 1.5e-7)
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+}
+
+// Standard normal quantile (Acklam's rational approximation, relative error < 1.2e-9)
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const pLow = 0.02425;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - pLow) {
+    return -normalQuantile(1 - p);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+// Bonferroni-adjusted p-values: each p times the number of tests, capped at 1
+export function bonferroniAdjust(pValues: number[]): number[] {
+  return pValues.map((p) => Math.min(1, p * pValues.length));
+}
+
+/**
+ * Holm step-down adjusted p-values, in input order. Controls the family-wise
+ * error rate like Bonferroni but rejects at least as often: the i-th smallest
+ * p is multiplied by (m - i), and adjusted values never decrease with rank.
+ */
+export function holmAdjust(pValues: number[]): number[] {
+  const m = pValues.length;
+  const order = pValues.map((p, index) => ({ p, index })).sort((x, y) => x.p - y.p);
+  const adjusted = new Array<number>(m);
+  let running = 0;
+  order.forEach(({ p, index }, i) => {
+    running = Math.max(running, Math.min(1, (m - i) * p));
+    adjusted[index] = running;
+  });
+  return adjusted;
+}
+
+// Average ranks (1-based), ties share the mean of their positions
+function rank(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((x, y) => x.value - y.value);
+  const ranks = new Array<number>(values.length);
+  for (let i = 0; i < order.length; ) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+    const averageRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) ranks[order[k].index] = averageRank;
+    i = j + 1;
+  }
+  return ranks;
+}
+
+export interface WilcoxonResult {
+  statistic: number;      // W+, sum of ranks of positive differences
+  pValue: number;         // Two-sided
+  n: number;              // Pairs with a non-zero difference
+  method: "exact" | "normal";
+}
+
+/**
+ * Wilcoxon signed-rank test for paired samples. Zero differences are dropped.
+ * Exact null distribution for up to 50 pairs (ties included, via doubled ranks);
+ * normal approximation with tie and continuity correction above that.
+ */
+export function wilcoxonSignedRank(group1: number[], group2: number[]): WilcoxonResult {
+  const differences = group1
+    .map((val, i) => val - group2[i])
+    .filter((d) => d !== 0 && Number.isFinite(d));
+  const n = differences.length;
+  if (n === 0) {
+    return { statistic: 0, pValue: 1, n: 0, method: "exact" };
+  }
+
+  const ranks = rank(differences.map(Math.abs));
+  const wPlus = ranks.reduce((sum, r, i) => sum + (differences[i] > 0 ? r : 0), 0);
+
+  if (n <= 50) {
+    // Count sign assignments by W+ (in half-rank units so tied ranks stay integral)
+    const doubled = ranks.map((r) => Math.round(r * 2));
+    const maxSum = doubled.reduce((sum, r) => sum + r, 0);
+    let counts = new Array<number>(maxSum + 1).fill(0);
+    counts[0] = 1;
+    for (const r of doubled) {
+      const next = counts.slice();
+      for (let s = 0; s + r <= maxSum; s++) {
+        if (counts[s] > 0) next[s + r] += counts[s];
+      }
+      counts = next;
+    }
+    const total = 2 ** n;
+    const observed = Math.round(wPlus * 2);
+    let lower = 0;
+    let upper = 0;
+    for (let s = 0; s <= maxSum; s++) {
+      if (s <= observed) lower += counts[s];
+      if (s >= observed) upper += counts[s];
+    }
+    const pValue = Math.min(1, (2 * Math.min(lower, upper)) / total);
+    return { statistic: wPlus, pValue, n, method: "exact" };
+  }
+
+  const expected = (n * (n + 1)) / 4;
+  const tieGroups = new Map<number, number>();
+  for (const r of ranks) tieGroups.set(r, (tieGroups.get(r) ?? 0) + 1);
+  const tieCorrection = [...tieGroups.values()].reduce((sum, t) => sum + (t ** 3 - t), 0) / 48;
+  const variance = (n * (n + 1) * (2 * n + 1)) / 24 - tieCorrection;
+  const z = (Math.abs(wPlus - expected) - 0.5) / Math.sqrt(variance);
+  const pValue = Math.min(1, 2 * (1 - normalCdf(Math.max(z, 0))));
+  return { statistic: wPlus, pValue, n, method: "normal" };
+}
+
+export interface PermutationResult {
+  meanDifference: number;
+  pValue: number;         // Two-sided
+  permutations: number;
+  method: "exact" | "monte-carlo";
+}
+
+/**
+ * Paired permutation (sign-flip) test on the mean difference. Enumerates every
+ * sign assignment up to 16 pairs; samples `iterations` of them above that.
+ */
+export function permutationTest(
+  group1: number[],
+  group2: number[],
+  options: { iterations?: number; random?: () => number } = {}
+): PermutationResult {
+  const differences = group1.map((val, i) => val - group2[i]).filter(Number.isFinite);
+  const n = differences.length;
+  if (n === 0) {
+    return { meanDifference: 0, pValue: 1, permutations: 0, method: "exact" };
+  }
+
+  const observed = mean(differences);
+  const threshold = Math.abs(observed) - 1e-12; // Tolerate float error at equality
+
+  if (n <= 16) {
+    const total = 2 ** n;
+    let extreme = 0;
+    for (let mask = 0; mask < total; mask++) {
+      let sum = 0;
+      for (let i = 0; i < n; i++) {
+        sum += mask & (1 << i) ? -differences[i] : differences[i];
+      }
+      if (Math.abs(sum / n) >= threshold) extreme++;
+    }
+    return { meanDifference: observed, pValue: extreme / total, permutations: total, method: "exact" };
+  }
+
+  const iterations = options.iterations ?? 10000;
+  const random = options.random ?? Math.random;
+  let extreme = 0;
+  for (let iter = 0; iter < iterations; iter++) {
+    let sum = 0;
+    for (const d of differences) {
+      sum += random() < 0.5 ? -d : d;
+    }
+    if (Math.abs(sum / n) >= threshold) extreme++;
+  }
+  // Count the observed assignment so the p-value is never 0
+  return {
+    meanDifference: observed,
+    pValue: (extreme + 1) / (iterations + 1),
+    permutations: iterations,
+    method: "monte-carlo",
+  };
+}
+
+export interface BootstrapResult {
+  interval: [number, number] | null;  // null when too many draws were discarded
+  iterations: number;
+  discarded: number;                  // Draws whose statistic was undefined (not finite)
+}
+
+/**
+ * Percentile bootstrap interval for any statistic of the samples. Resamples
+ * whole samples (e.g. matched trial pairs) with replacement.
+ *
+ * Draws where the statistic is undefined (e.g. a ratio whose resampled
+ * denominator is 0) are discarded and counted. Percentiles of the rest would
+ * describe only the resamples where the statistic happens to exist, so no
+ * interval is returned once more than `maxDiscardedFraction` of the draws
+ * (default 0.1) are lost.
+ */
+export function bootstrapConfidenceInterval<T>(
+  samples: T[],
+  statistic: (resample: T[]) => number,
+  confidence: number,
+  options: { iterations?: number; random?: () => number; maxDiscardedFraction?: number } = {}
+): BootstrapResult {
+  if (samples.length === 0) return { interval: [0, 0], iterations: 0, discarded: 0 };
+
+  const iterations = options.iterations ?? 10000;
+  const random = options.random ?? Math.random;
+  const maxDiscardedFraction = options.maxDiscardedFraction ?? 0.1;
+  const estimates: number[] = [];
+  for (let iter = 0; iter < iterations; iter++) {
+    const resample = samples.map(() => samples[Math.floor(random() * samples.length)]);
+    const estimate = statistic(resample);
+    if (Number.isFinite(estimate)) estimates.push(estimate);
+  }
+  const discarded = iterations - estimates.length;
+  if (estimates.length === 0 || discarded > maxDiscardedFraction * iterations) {
+    return { interval: null, iterations, discarded };
+  }
+
+  estimates.sort((x, y) => x - y);
+  const alpha = (1 - confidence) / 2;
+  const quantile = (q: number) => estimates[Math.min(estimates.length - 1, Math.max(0, Math.floor(q * estimates.length)))];
+  return { interval: [quantile(alpha), quantile(1 - alpha)], iterations, discarded };
+}
+
+export interface NormalityResult {
+  test: "shapiro-wilk";
+  statistic: number;  // W
+  pValue: number;
+}
+
+/**
+ * Shapiro-Wilk normality test (Royston 1992/1995 approximation), 3 to 5000
+ * values. Returns null when the test cannot run (too few or constant values).
+ */
+export function shapiroWilk(values: number[]): NormalityResult | null {
+  const x = values.filter(Number.isFinite).sort((a, b) => a - b);
+  const n = x.length;
+  if (n < 3 || n > 5000) return null;
+
+  const avg = mean(x);
+  const ss = x.reduce((sum, v) => sum + (v - avg) ** 2, 0);
+  if (ss <= 1e-18 * Math.max(1, avg * avg)) return null;
+
+  // Coefficients
+  const a = new Array<number>(n).fill(0);
+  if (n === 3) {
+    a[0] = -Math.SQRT1_2;
+    a[2] = Math.SQRT1_2;
+  } else {
+    const m = x.map((_, i) => normalQuantile((i + 1 - 0.375) / (n + 0.25)));
+    const mm = m.reduce((sum, v) => sum + v * v, 0);
+    const u = 1 / Math.sqrt(n);
+    const polyN = (c0: number, c: number[]) =>
+      c0 + c[0] * u + c[1] * u ** 2 + c[2] * u ** 3 + c[3] * u ** 4 + c[4] * u ** 5;
+    const an = polyN(m[n - 1] / Math.sqrt(mm), [0.221157, -0.147981, -2.07119, 4.434685, -2.706056]);
+
+    if (n > 5) {
+      const an1 = polyN(m[n - 2] / Math.sqrt(mm), [0.042981, -0.293762, -1.752461, 5.682633, -3.582633]);
+      const phi = (mm - 2 * m[n - 1] ** 2 - 2 * m[n - 2] ** 2) / (1 - 2 * an ** 2 - 2 * an1 ** 2);
+      for (let i = 2; i < n - 2; i++) a[i] = m[i] / Math.sqrt(phi);
+      a[0] = -an;
+      a[1] = -an1;
+      a[n - 2] = an1;
+      a[n - 1] = an;
+    } else {
+      const phi = (mm - 2 * m[n - 1] ** 2) / (1 - 2 * an ** 2);
+      for (let i = 1; i < n - 1; i++) a[i] = m[i] / Math.sqrt(phi);
+      a[0] = -an;
+      a[n - 1] = an;
+    }
+  }
+
+  const numerator = a.reduce((sum, coefficient, i) => sum + coefficient * x[i], 0) ** 2;
+  const w = Math.min(1, numerator / ss);
+
+  // P-value
+  let pValue: number;
+  if (n === 3) {
+    pValue = Math.max(0, Math.min(1, (6 / Math.PI) * (Math.asin(Math.sqrt(w)) - Math.asin(Math.sqrt(0.75)))));
+  } else if (n <= 11) {
+    const gamma = 0.459 * n - 2.273;
+    const mu = 0.544 - 0.39978 * n + 0.025054 * n ** 2 - 0.0006714 * n ** 3;
+    const sigma = Math.exp(1.3822 - 0.77857 * n + 0.062767 * n ** 2 - 0.0020322 * n ** 3);
+    const z = (-Math.log(gamma - Math.log(1 - w)) - mu) / sigma;
+    pValue = 1 - normalCdf(z);
+  } else {
+    const logN = Math.log(n);
+    const mu = -1.5861 - 0.31082 * logN - 0.083751 * logN ** 2 + 0.0038915 * logN ** 3;
+    const sigma = Math.exp(-0.4803 - 0.082676 * logN + 0.0030302 * logN ** 2);
+    const z = (Math.log(1 - w) - mu) / sigma;
+    pValue = 1 - normalCdf(z);
+  }
+
+  return { test: "shapiro-wilk", statistic: w, pValue };
+}
@@ -2,26 +2,48 @@ import type {
   StudyConfig,
   StudyResults,
   ConditionResults,
+  NamedConditionResults,
   TrialResults,
   CycleMetrics,
   OptimizationResult,
+  ZauthCacheSummary,
+  BreakEvenInputs,
+  BurnRateTests,
+  BurnRateDifference,
+  PairwiseComparison,
+  SequentialResults,
+  OutcomeTape,
 } from "./types.js";
 import type { Config, Network } from "./config.js";
 import { YieldOptimizerAgent } from "./yield-agent.js";
 import { createMockX402Client, createRealX402Client, type X402Client } from "./x402-client.js";
-import { createMockZauthClient, createRealZauthClient, type ZauthClient } from "./zauth-client.js";
+import { createRealZauthClient, type ZauthClient } from "./zauth-client.js";
+import { createOracle, listOracles } from "./reliability-oracle.js";
+import { summarizeSweep } from "./sweep.js";
+import { createSequentialMonitor } from "./sequential.js";
 import {
   mean,
   standardDeviation,
   confidenceInterval,
+  ratioOfMeansInterval,
   tTest,
   cohensD,
+  wilcoxonSignedRank,
+  permutationTest,
+  bootstrapConfidenceInterval,
+  shapiroWilk,
+  holmAdjust,
+  bonferroniAdjust,
 } from "./statistics.js";
 import { createSpendTracker, type SpendTracker } from "./spend-tracker.js";
+import { STREAMS, createRandomStreams } from "./random.js";
+import { createTapePlayer, generateStudyTapes } from "./outcome-tape.js";
+import { PAYMENT_OUTCOME_KINDS, emptyBurnByOutcome } from "./payment-outcome.js";
 
 interface ProgressTracker {
   totalTrials: number;
   totalCycles: number;
+  conditionCount: number;
   completedTrials: number;
   completedCycles: number;
   startTime: number;
@@ -30,11 +52,13 @@ interface ProgressTracker {
 
 function createProgressTracker(
   totalTrials: number,
-  totalCycles: number
+  totalCycles: number,
+  conditionCount: number
 ): ProgressTracker {
   return {
     totalTrials,
     totalCycles,
+    conditionCount,
     completedTrials: 0,
     completedCycles: 0,
     startTime: Date.now(),
@@ -46,8 +70,8 @@ function updateProgress(tracker: ProgressTracker): void {
   const now = Date.now();
   const elapsed = (now - tracker.startTime) / 1000; // seconds
 
-  // Calculate total progress (trials * 2 for both conditions)
-  const totalWork = tracker.totalTrials * 2;
+  // Calculate total progress (one work unit per trial per condition)
+  const totalWork = tracker.totalTrials * tracker.conditionCount;
   const completedWork = tracker.completedTrials;
   const progressPercent = (completedWork / totalWork) * 100;
 
@@ -67,46 +91,40 @@ function updateProgress(tracker: ProgressTracker): void {
   // Clear line and write progress
   process.stdout.write("\r");
   process.stdout.write(
-    `Progress: ${progressPercent.toFixed(1)}% | Trial ${Math.floor(completedWork / 2) + 1}/${tracker.totalTrials} | ETA: ${timeRemaining}` +
+    `Progress: ${progressPercent.toFixed(1)}% | Trial ${Math.floor(completedWork / tracker.conditionCount) + 1}/${tracker.totalTrials} | ETA: ${timeRemaining}` +
       " ".repeat(10)
   );
 
   tracker.lastUpdateTime = now;
 }
 
-type AgentMode = "no-zauth" | "with-zauth";
-
-class SeededRandom {
-  private seed: number;
-
-  constructor(seed: number) {
-    this.seed = seed;
-  }
-
-  // Linear congruential generator
-  next(): number {
-    this.seed = (this.seed * 1664525 + 1013904223) % 2 ** 32;
-    return this.seed / 2 ** 32;
-  }
-}
-
-let partialResults: { noZauth: TrialResults[]; withZauth: TrialResults[] } | null =
-  null;
+let partialResults: Record<string, TrialResults[]> | null = null;
 let isInterrupted = false;
 let isBudgetExhausted = false;
 
 export async function runScientificStudy(
   config: StudyConfig,
   baseConfig: Config,
-  bazaarClient?: any
+  bazaarClient?: any,
+  tapes?: OutcomeTape[]
 ): Promise<StudyResults> {
   // Reset state for new study
   isBudgetExhausted = false;
 
   const network: Network = config.network ?? "base";
 
+  if (config.conditions.length < 2) {
+    throw new Error("A study needs at least two conditions (baseline and treatment)");
+  }
+  for (const name of config.conditions) {
+    if (!listOracles().includes(name)) {
+      throw new Error(`Unknown study condition: ${name}. Available: ${listOracles().join(", ")}`);
+    }
+  }
+
   console.log("\n=== Starting Scientific Study ===");
   console.log(`Network: ${network.toUpperCase()}`);
+  console.log(`Conditions: ${config.conditions.join(", ")}`);
   console.log(`Trials per condition: ${config.trialsPerCondition}`);
   console.log(`Cycles per trial: ${config.cyclesPerTrial}`);
   console.log(`Base seed: ${config.baseSeed}`);
@@ -114,10 +132,33 @@ export async function runScientificStudy(
   if (config.budgetUsdc !== undefined) {
     console.log(`Budget: $${config.budgetUsdc.toFixed(2)} USDC`);
   }
+  const monitor = config.sequential
+    ? createSequentialMonitor(config.sequential, config.trialsPerCondition)
+    : null;
+  if (monitor) {
+    console.log(
+      `Sequential: O'Brien-Fleming, alpha ${monitor.design.alpha}, |z| >= ${monitor.boundaryAt(config.trialsPerCondition).toFixed(3)} ` +
+      `at the final look, first look after ${monitor.schedule[0]} trials`
+    );
+  }
   console.log("");
 
-  const noZauthTrials: TrialResults[] = [];
-  const withZauthTrials: TrialResults[] = [];
+  // Every condition in a mock trial replays that trial's outcome tape
+  if (tapes && !config.mockMode) {
+    throw new Error("Outcome tapes can only be replayed in mock mode");
+  }
+  if (tapes && tapes.length < config.trialsPerCondition) {
+    throw new Error(`Only ${tapes.length} outcome tapes for ${config.trialsPerCondition} trials`);
+  }
+  if (tapes?.some((tape) => tape.cycles < config.cyclesPerTrial)) {
+    throw new Error(`Outcome tapes are shorter than the ${config.cyclesPerTrial} cycles requested per trial`);
+  }
+  const trialTapes = config.mockMode
+    ? tapes ?? generateStudyTapes(config.baseSeed, config.trialsPerCondition, config.cyclesPerTrial, baseConfig)
+    : null;
+
+  const conditionTrials: TrialResults[][] = config.conditions.map(() => []);
+  const costPerCheck: number[] = config.conditions.map(() => 0);
 
   // Create spend tracker if budget is set
   const spendTracker = config.budgetUsdc !== undefined
@@ -145,7 +186,9 @@ export async function runScientificStudy(
       process.exit(1);
     }
     isInterrupted = true;
-    partialResults = { noZauth: noZauthTrials, withZauth: withZauthTrials };
+    partialResults = Object.fromEntries(
+      config.conditions.map((name, i) => [name, conditionTrials[i]])
+    );
     console.log(
       "\n\nInterrupted! Saving partial results... (press Ctrl+C again to force quit)"
     );
@@ -153,79 +196,91 @@ export async function runScientificStudy(
 
   process.on("SIGINT", handleInterrupt);
 
+  let sequential: SequentialResults | undefined;
   try {
     const progress = createProgressTracker(
       config.trialsPerCondition,
-      config.cyclesPerTrial
+      config.cyclesPerTrial,
+      config.conditions.length
     );
 
-    // Run matched pairs of trials
+    // Run matched sets of trials: every condition with the same seed
+    trialLoop:
     for (let trialIdx = 0; trialIdx < config.trialsPerCondition; trialIdx++) {
-      if (isInterrupted || isBudgetExhausted) break;
-
       const trialSeed = config.baseSeed + trialIdx;
 
-      // Run no-zauth condition
-      updateProgress(progress);
-      const noZauthResult = await runTrial(
-        "no-zauth",
-        config.cyclesPerTrial,
-        trialSeed,
-        baseConfig,
-        config.mockMode,
-        x402Client,
-        spendTracker,
-        network,
-        bazaarClient,
-        zauthClient
-      );
-      noZauthTrials.push(noZauthResult);
-      progress.completedTrials++;
-
-      if (isInterrupted || isBudgetExhausted) break;
-
-      // Run with-zauth condition with same seed
-      updateProgress(progress);
-      const withZauthResult = await runTrial(
-        "with-zauth",
-        config.cyclesPerTrial,
-        trialSeed,
-        baseConfig,
-        config.mockMode,
-        x402Client,
-        spendTracker,
-        network,
-        bazaarClient,
-        zauthClient
-      );
-      withZauthTrials.push(withZauthResult);
-      progress.completedTrials++;
+      for (let c = 0; c < config.conditions.length; c++) {
+        if (isInterrupted || isBudgetExhausted) break trialLoop;
+
+        updateProgress(progress);
+        const { trial, oracleCostPerCheck } = await runTrial(
+          config.conditions[c],
+          config.cyclesPerTrial,
+          trialSeed,
+          trialTapes?.[trialIdx] ?? null,
+          baseConfig,
+          config.mockMode,
+          x402Client,
+          spendTracker,
+          network,
+          bazaarClient,
+          zauthClient
+        );
+        conditionTrials[c].push(trial);
+        costPerCheck[c] = oracleCostPerCheck;
+        progress.completedTrials++;
+      }
+
+      // Look at baseline vs primary treatment once the matched set is complete
+      if (monitor && conditionTrials[conditionTrials.length - 1].length === trialIdx + 1) {
+        const stop = monitor.observe(
+          conditionTrials[0].map((t) => t.burnRate),
+          conditionTrials[1].map((t) => t.burnRate)
+        );
+        if (stop) {
+          process.stdout.write("\r" + " ".repeat(80) + "\r");
+          console.log(
+            `Stopping early for ${stop} after ${trialIdx + 1}/${config.trialsPerCondition} matched trial sets`
+          );
+          break trialLoop;
+        }
+      }
     }
 
     // Clear progress line
     process.stdout.write("\r" + " ".repeat(80) + "\r");
 
-    if (isBudgetExhausted && spendTracker) {
-      // Ensure we have paired trials (remove unpaired trial if exists)
-      const minTrials = Math.min(noZauthTrials.length, withZauthTrials.length);
-      noZauthTrials.length = minTrials;
-      withZauthTrials.length = minTrials;
+    // Ensure we have matched trials (remove unmatched trials if any)
+    const minTrials = Math.min(...conditionTrials.map((trials) => trials.length));
+    for (const trials of conditionTrials) {
+      trials.length = minTrials;
+    }
+    if (monitor) {
+      sequential = monitor.finish(
+        minTrials,
+        isBudgetExhausted ? "budget" : isInterrupted ? "interrupted" : "completed"
+      );
+    }
 
+    if (isBudgetExhausted && spendTracker) {
       console.log(
         `\nBudget exhausted: ${spendTracker.getSummary()}`
       );
       console.log(
-        `Partial study saved: ${minTrials}/${config.trialsPerCondition} trial pairs completed`
+        `Partial study saved: ${minTrials}/${config.trialsPerCondition} matched trial sets completed`
       );
     } else if (isInterrupted) {
-      // Ensure we have paired trials (remove unpaired trial if exists)
-      const minTrials = Math.min(noZauthTrials.length, withZauthTrials.length);
-      noZauthTrials.length = minTrials;
-      withZauthTrials.length = minTrials;
-
       console.log(
         `\nPartial study completed: ${minTrials}/${config.trialsPerCondition} trials`
       );
+    } else if (sequential && sequential.reason !== "completed") {
+      console.log(
+        `\nStudy stopped for ${sequential.reason}: ${minTrials}/${config.trialsPerCondition} matched trial sets ` +
+        `(${config.trialsPerCondition - minTrials} not run)`
+      );
+      if (spendTracker) {
+        console.log(`Final spend: ${spendTracker.getSummary()}`);
+      }
     } else {
       console.log("\nStudy completed successfully!");
       if (spendTracker) {
@@ -238,32 +293,46 @@ export async function runScientificStudy(
   }
 
   // Ensure we have at least 1 trial to analyze
-  if (noZauthTrials.length === 0 || withZauthTrials.length === 0) {
+  if (conditionTrials[0].length === 0) {
     throw new Error(
       "Study interrupted too early - no complete trial pairs to analyze"
     );
   }
 
   // Aggregate condition results
-  const noZauth = aggregateConditionResults(noZauthTrials);
-  const withZauth = aggregateConditionResults(withZauthTrials);
-
-  // Statistical analysis
-  const noZauthBurnRates = noZauthTrials.map((t) => t.burnRate);
-  const withZauthBurnRates = withZauthTrials.map((t) => t.burnRate);
-
-  const burnReductionPercent =
-    ((noZauth.avgBurnRate - withZauth.avgBurnRate) / noZauth.avgBurnRate) * 100;
+  const conditions: NamedConditionResults[] = config.conditions.map((name, i) => ({
+    name,
+    costPerCheck: costPerCheck[i],
+    ...aggregateConditionResults(conditionTrials[i]),
+  }));
+  const [noZauth, withZauth] = conditions;
+
+  // Statistical analysis (baseline vs primary treatment)
+  const noZauthBurnRates = noZauth.trials.map((t) => t.burnRate);
+  const withZauthBurnRates = withZauth.trials.map((t) => t.burnRate);
+
+  // Ratio of mean burn rates: trials where the baseline burned nothing still
+  // count, where an average of per-trial ratios would divide by zero
+  const burnRateDifferences = noZauthBurnRates.map((noZ, i) => noZ - withZauthBurnRates[i]);
+  let burnReductionPercent: number | null = null;
+  let confidenceInterval95: [number, number] | null = null;
+  if (noZauth.avgBurnRate > 0) {
+    burnReductionPercent = ((noZauth.avgBurnRate - withZauth.avgBurnRate) / noZauth.avgBurnRate) * 100;
+    const [reductionLower, reductionUpper] = ratioOfMeansInterval(burnRateDifferences, noZauthBurnRates, 0.95);
+    confidenceInterval95 = [reductionLower * 100, reductionUpper * 100];
+  }
 
-  // Calculate confidence interval for burn reduction
-  const burnReductions = noZauthBurnRates.map(
-    (noZ, i) => ((noZ - withZauthBurnRates[i]) / noZ) * 100
-  );
-  const confidenceInterval95 = confidenceInterval(burnReductions, 0.95);
+  const [differenceLower, differenceUpper] = confidenceInterval(burnRateDifferences, 0.95);
+  const burnRateDifference: BurnRateDifference = {
+    percentagePoints: mean(burnRateDifferences) * 100,
+    confidenceInterval95: [differenceLower * 100, differenceUpper * 100],
+  };
+  const zeroBaselineTrials = noZauthBurnRates.filter((rate) => rate === 0).length;
 
   // Hypothesis testing
-  const { pValue } = tTest(noZauthBurnRates, withZauthBurnRates);
+  const { tStatistic, pValue } = tTest(noZauthBurnRates, withZauthBurnRates);
   const effectSize = cohensD(noZauthBurnRates, withZauthBurnRates);
+  const tests = runBurnRateTests(noZauthBurnRates, withZauthBurnRates, tStatistic, pValue, config.baseSeed);
 
   // Cost-benefit analysis
   const avgNoZauthBurnPerCycle = noZauth.avgTotalBurn / config.cyclesPerTrial;
@@ -271,29 +340,156 @@ export async function runScientificStudy(
     withZauth.avgTotalBurn / config.cyclesPerTrial;
   const netSavingsPerCycle = avgNoZauthBurnPerCycle - avgWithZauthBurnPerCycle;
 
-  // Break-even failure rate calculation
-  // Zauth cost is fixed at 0.001 USDC per check
-  // Break-even when: zauthCost = burnSavings
-  const avgZauthCostPerCycle = 0.001 * 10; // ~10 checks per cycle
-  const avgQueryCost = 0.01; // USDC per query
-  const breakEvenFailureRate = avgZauthCostPerCycle / avgQueryCost;
+  // Break-even failure rate from measured prices and query counts.
+  // Break-even when: zauthCost = burn avoidable at failure rate f
+  //                  = f × baseline queries × average query price
+  const queriesPerCycle = noZauth.avgQueriesAttempted / config.cyclesPerTrial;
+  const avgQueryCost = noZauth.avgQueriesAttempted > 0
+    ? (noZauth.avgTotalSpent - noZauth.avgZauthCost) / noZauth.avgQueriesAttempted
+    : 0;
+  const avgZauthCostPerCycle = withZauth.avgZauthCost / config.cyclesPerTrial;
+  const avoidableSpendPerCycle = queriesPerCycle * avgQueryCost;
+  const breakEvenFailureRate = avoidableSpendPerCycle > 0
+    ? avgZauthCostPerCycle / avoidableSpendPerCycle
+    : 0;
+  const breakEven: BreakEvenInputs = {
+    zauthCostPerCycle: avgZauthCostPerCycle,
+    zauthPricePerCheck: withZauth.costPerCheck,
+    checksPerCycle: withZauth.avgReliabilityChecks / config.cyclesPerTrial,
+    queriesPerCycle,
+    avgQueryCostUsdc: avgQueryCost,
+  };
+
+  // Zauth check cache: what the treatment paid vs paying for every check
+  const checksPerCycle = breakEven.checksPerCycle;
+  const cacheHitsPerCycle = withZauth.avgCacheHits / config.cyclesPerTrial;
+  const uncachedZauthCostPerCycle = checksPerCycle * withZauth.costPerCheck;
+  const zauthCache: ZauthCacheSummary = {
+    ttlMs: baseConfig.zauthCacheTtl,
+    staleTtlMs: baseConfig.zauthStaleTtl,
+    checksPerCycle,
+    cacheHitsPerCycle,
+    hitRate: checksPerCycle > 0 ? cacheHitsPerCycle / checksPerCycle : 0,
+    zauthCostPerCycle: avgZauthCostPerCycle,
+    uncachedZauthCostPerCycle,
+    netSavingsPerCycle: netSavingsPerCycle - avgZauthCostPerCycle,
+    uncachedNetSavingsPerCycle: netSavingsPerCycle - uncachedZauthCostPerCycle,
+  };
 
   return {
     noZauth,
     withZauth,
+    conditions,
     burnReductionPercent,
     confidenceInterval95,
+    burnRateDifference,
+    zeroBaselineTrials,
     pValue,
     effectSize,
     netSavingsPerCycle,
     breakEvenFailureRate,
+    breakEven,
+    tests,
+    zauthCache,
+    sweep: config.sweep ? summarizeSweep(conditions, config.sweep, config.cyclesPerTrial) : undefined,
+    sequential,
+    pairwise: conditions.length > 2 ? comparePairs(conditions) : undefined,
+  };
+}
+
+/**
+ * Every pair of conditions on their matched trials, with Holm and Bonferroni
+ * adjustment across the whole family of comparisons. Each pair uses the same
+ * test choice as the primary comparison.
+ */
+function comparePairs(conditions: NamedConditionResults[]): PairwiseComparison[] {
+  const unadjusted: Omit<PairwiseComparison, "holmPValue" | "bonferroniPValue" | "significant">[] = [];
+  for (let i = 0; i < conditions.length; i++) {
+    for (let j = i + 1; j < conditions.length; j++) {
+      const reference = conditions[i];
+      const condition = conditions[j];
+      const referenceRates = reference.trials.map((t) => t.burnRate);
+      const conditionRates = condition.trials.map((t) => t.burnRate);
+      const differences = referenceRates.map((rate, k) => rate - conditionRates[k]);
+
+      const normality = shapiroWilk(differences);
+      const useWilcoxon = normality !== null && normality.pValue < 0.05;
+      unadjusted.push({
+        reference: reference.name,
+        condition: condition.name,
+        trials: referenceRates.length,
+        burnReductionPercent: reference.avgBurnRate > 0
+          ? ((reference.avgBurnRate - condition.avgBurnRate) / reference.avgBurnRate) * 100
+          : null,
+        burnRateDifference: mean(differences) * 100,
+        test: useWilcoxon ? "wilcoxon" : "paired-t",
+        pValue: useWilcoxon
+          ? wilcoxonSignedRank(referenceRates, conditionRates).pValue
+          : tTest(referenceRates, conditionRates).pValue,
+      });
+    }
+  }
+
+  const holm = holmAdjust(unadjusted.map((c) => c.pValue));
+  const bonferroni = bonferroniAdjust(unadjusted.map((c) => c.pValue));
+  return unadjusted.map((comparison, k) => ({
+    ...comparison,
+    holmPValue: holm[k],
+    bonferroniPValue: bonferroni[k],
+    significant: holm[k] < 0.05,
+  }));
+}
+
+/**
+ * Non-parametric and resampling checks on the paired burn rates. Burn rates
+ * are bounded ratios and rarely normal over a handful of trials, so the
+ * Wilcoxon test takes over as the primary test when Shapiro-Wilk rejects
+ * normality of the paired differences.
+ */
+function runBurnRateTests(
+  baselineRates: number[],
+  treatmentRates: number[],
+  tStatistic: number,
+  tPValue: number,
+  baseSeed: number
+): BurnRateTests {
+  const resampling = createRandomStreams(baseSeed).stream(STREAMS.resampling);
+  const random = () => resampling.next();
+
+  const differences = baselineRates.map((rate, i) => rate - treatmentRates[i]);
+  const normality = shapiroWilk(differences);
+  const normalityViolated = normality !== null && normality.pValue < 0.05;
+  const wilcoxon = wilcoxonSignedRank(baselineRates, treatmentRates);
+
+  // Same estimator as burnReductionPercent, recomputed on resampled trial pairs
+  const pairs = baselineRates.map((rate, i) => [rate, treatmentRates[i]] as const);
+  const bootstrap = bootstrapConfidenceInterval(
+    pairs,
+    (resample) => {
+      const baseline = mean(resample.map(([b]) => b));
+      return ((baseline - mean(resample.map(([, t]) => t))) / baseline) * 100;
+    },
+    0.95,
+    { random }
+  );
+
+  return {
+    pairedT: { statistic: tStatistic, degreesOfFreedom: Math.max(baselineRates.length - 1, 0), pValue: tPValue },
+    wilcoxon,
+    permutation: permutationTest(baselineRates, treatmentRates, { random }),
+    bootstrap,
+    normality,
+    normalityViolated,
+    primary: normalityViolated ? "wilcoxon" : "paired-t",
+    primaryPValue: normalityViolated ? wilcoxon.pValue : tPValue,
   };
 }
 
 async function runTrial(
-  mode: AgentMode,
+  condition: string,
   cycles: number,
   seed: number,
+  tape: OutcomeTape | null,
   config: Config,
   mockMode: boolean,
   sharedX402Client: X402Client | null = null,
@@ -301,23 +497,23 @@ async function runTrial(
   network: Network = "base",
   bazaarClient?: any,
   sharedZauthClient: ZauthClient | null = null
-): Promise<TrialResults> {
-  const rng = new SeededRandom(seed);
+): Promise<{ trial: TrialResults; oracleCostPerCheck: number }> {
+  // Every condition on this seed replays the same tape: same endpoint failures, same Zauth answers
+  const streams = createRandomStreams(seed);
+  const player = tape ? createTapePlayer(tape) : null;
   const metrics: CycleMetrics[] = [];
 
   // Use shared real clients if provided, otherwise create mock clients
-  const x402Client = sharedX402Client ?? createMockX402Client(config, rng, mockMode);
-  const zauthClient = mode === "with-zauth"
-    ? (sharedZauthClient ?? createMockZauthClient(config, rng))
-    : undefined;
+  const x402Client = sharedX402Client ?? createMockX402Client(config, player, mockMode);
+  const oracle = createOracle(condition, { config, streams, tape: player, mockMode, network, sharedZauthClient });
 
   // Determine endpoint source based on mock mode
   const endpointSource = mockMode ? "mock" : "real";
   const agent = new YieldOptimizerAgent(
-    mode,
+    condition,
     config,
     x402Client,
-    zauthClient,
+    oracle,
     endpointSource,
     network,
     bazaarClient
@@ -346,13 +542,24 @@ async function runTrial(
     metrics.push({
       spentUsdc: result.totalSpent,
       burnUsdc: result.totalBurn,
+      burnByOutcome: result.burnByOutcome,
       zauthCostUsdc: result.zauthCost,
+      reliabilityChecks: result.reliabilityChecks,
+      cacheHits: result.cacheHits,
+      skipDecisions: result.skipDecisions,
+      queriesSkipped: result.queriesSkipped,
+      skippedWouldSucceed: result.skippedWouldSucceed,
+      skippedWouldFail: result.skippedWouldFail,
+      allocation: allocationKey(result),
       queriesAttempted: result.queriesAttempted,
       queriesFailed: result.queriesFailed,
       latencyMs,
     });
   }
 
+  // Let the oracle persist anything it learned during the trial
+  await oracle.close?.();
+
   // Aggregate trial results
   const totalSpent = metrics.reduce((sum, m) => sum + m.spentUsdc, 0);
   const totalBurn = metrics.reduce((sum, m) => sum + m.burnUsdc, 0);
@@ -360,14 +567,26 @@ async function runTrial(
   const avgLatency = mean(metrics.map((m) => m.latencyMs));
 
   return {
-    metrics,
-    totalSpent,
-    totalBurn,
-    burnRate,
-    avgLatency,
+    trial: {
+      metrics,
+      totalSpent,
+      totalBurn,
+      burnRate,
+      avgLatency,
+    },
+    oracleCostPerCheck: oracle.costPerCheck,
   };
 }
 
+/**
+ * Token pair the cycle allocated to ("none" without pool data). Pool IDs carry a
+ * timestamp, so the pair is what can be compared across conditions.
+ */
+function allocationKey(result: OptimizationResult): string {
+  const pool = result.poolData.find((p) => p.poolId === result.allocation.poolId);
+  return pool ? `${pool.tokenA}-${pool.tokenB}` : result.allocation.poolId;
+}
+
 function aggregateConditionResults(trials: TrialResults[]): ConditionResults {
   const burnRates = trials.map((t) => t.burnRate);
   const totalSpents = trials.map((t) => t.totalSpent);
@@ -381,6 +600,18 @@ function aggregateConditionResults(trials: TrialResults[]): ConditionResults {
     t.metrics.reduce((sum, m) => sum + m.queriesFailed, 0)
   );
 
+  // Average per-trial burn for each payment outcome class
+  const avgBurnByOutcome = emptyBurnByOutcome();
+  for (const kind of PAYMENT_OUTCOME_KINDS) {
+    avgBurnByOutcome[kind] = mean(
+      trials.map((t) => t.metrics.reduce((sum, m) => sum + m.burnByOutcome[kind], 0))
+    );
+  }
+
+  // Oracle check totals per trial
+  const sumPerTrial = (pick: (m: CycleMetrics) => number) =>
+    trials.map((t) => t.metrics.reduce((sum, m) => sum + pick(m), 0));
+
   return {
     trials,
     avgBurnRate: mean(burnRates),
@@ -389,5 +620,18 @@ function aggregateConditionResults(trials: TrialResults[]): ConditionResults {
     stdDevBurnRate: standardDeviation(burnRates),
     avgQueriesAttempted: mean(queriesAttemptedPerTrial),
     avgQueriesFailed: mean(queriesFailedPerTrial),
+    avgBurnByOutcome,
+    avgZauthCost: mean(sumPerTrial((m) => m.zauthCostUsdc)),
+    avgReliabilityChecks: mean(sumPerTrial((m) => m.reliabilityChecks)),
+    avgCacheHits: mean(sumPerTrial((m) => m.cacheHits)),
+    avgQueriesSkipped: mean(sumPerTrial((m) => m.queriesSkipped)),
+    avgSkippedWouldSucceed: mean(sumPerTrial((m) => m.skippedWouldSucceed)),
+    skipConfusion: {
+      trueSkip: mean(sumPerTrial((m) => m.skippedWouldFail)),
+      falseSkip: mean(sumPerTrial((m) => m.skippedWouldSucceed)),
+      truePass: mean(sumPerTrial((m) => m.queriesAttempted - m.queriesSkipped - m.queriesFailed)),
+      falsePass: mean(sumPerTrial((m) => m.queriesFailed)),
+      unknownSkip: mean(sumPerTrial((m) => m.queriesSkipped - m.skippedWouldSucceed - m.skippedWouldFail)),
+    },
   };
 }
@@ -0,0 +1,162 @@
+/**
+ * Threshold Sweep
+ *
+ * Runs the primary treatment at several skip thresholds next to the baseline,
+ * every level on the same seeds, so net savings can be compared across levels
+ * and an operating point picked from data.
+ *
+ * Each level is registered as its own condition ("with-zauth@0.70") that builds
+ * the treatment oracle with a fixed skip policy at that uptime cutoff for every
+ * category. Only oracles that apply `config.skipPolicy` (zauth, with-zauth)
+ * respond to the threshold. A single level can also be named directly in
+ * `--conditions`, e.g. "with-zauth@0.9", to run it as one arm of a study.
+ */
+
+import type { NamedConditionResults, SweepLevel, SweepResults, SweepSpec, TrialResults } from "./types.js";
+import { createOracle, listOracles, registerOracle } from "./reliability-oracle.js";
+import { DATA_CATEGORIES, createSkipPolicyConfig, type DataCategory } from "./skip-policy.js";
+
+const SWEEP_PARAMETERS = ["threshold"] as const;
+
+/**
+ * Parse "threshold:0.5..0.95:0.05" (parameter:start..end:step, end inclusive).
+ */
+export function parseSweepSpec(spec: string, treatment: string): SweepSpec {
+  const match = spec.match(/^(\w+):([\d.]+)\.\.([\d.]+):([\d.]+)$/);
+  if (!match) {
+    throw new Error(`Invalid sweep: ${spec}. Expected e.g. threshold:0.5..0.95:0.05`);
+  }
+
+  const [, parameter, startRaw, endRaw, stepRaw] = match;
+  if (!(SWEEP_PARAMETERS as readonly string[]).includes(parameter)) {
+    throw new Error(`Unknown sweep parameter: ${parameter}. Valid options: ${SWEEP_PARAMETERS.join(", ")}`);
+  }
+
+  const start = parseFloat(startRaw);
+  const end = parseFloat(endRaw);
+  const step = parseFloat(stepRaw);
+  if (!(step > 0) || end < start || start < 0 || end > 1) {
+    throw new Error(`Invalid sweep range: ${startRaw}..${endRaw}:${stepRaw} (thresholds must be 0-1, step > 0)`);
+  }
+
+  // Count steps first so float drift never drops or adds the last level
+  const count = Math.floor((end - start) / step + 1e-9) + 1;
+  const values = Array.from({ length: count }, (_, i) => Math.round((start + i * step) * 1e6) / 1e6);
+
+  return { parameter: "threshold", values, treatment };
+}
+
+/**
+ * Condition name for one sweep level.
+ */
+export function sweepConditionName(treatment: string, value: number): string {
+  return `${treatment}@${value.toFixed(2)}`;
+}
+
+/**
+ * Register `treatment` at a fixed uptime cutoff as its own condition and
+ * return the condition name.
+ */
+export function registerThresholdCondition(treatment: string, value: number): string {
+  const name = sweepConditionName(treatment, value);
+  const minUptime = Object.fromEntries(
+    DATA_CATEGORIES.map((category) => [category, value])
+  ) as Record<DataCategory, number>;
+
+  registerOracle(name, (context) => {
+    const dataValues = Object.fromEntries(
+      DATA_CATEGORIES.map((category) => [category, context.config.skipPolicy.categories[category].missingDataValueUsdc])
+    ) as Record<DataCategory, number>;
+    const skipPolicy = createSkipPolicyConfig({ mode: "fixed", minUptime, missingDataValueUsdc: dataValues });
+    return createOracle(treatment, { ...context, config: { ...context.config, skipPolicy } });
+  });
+  return name;
+}
+
+/**
+ * Resolve a --conditions entry. "with-zauth@0.9" registers the oracle at that
+ * uptime cutoff and returns its canonical name ("with-zauth@0.90"); plain
+ * names pass through.
+ */
+export function resolveConditionName(condition: string): string {
+  const at = condition.indexOf("@");
+  if (at === -1) return condition;
+
+  const treatment = condition.slice(0, at);
+  const value = Number(condition.slice(at + 1));
+  if (!listOracles().includes(treatment)) {
+    throw new Error(`Unknown condition: ${treatment} (in ${condition}). Available: ${listOracles().join(", ")}`);
+  }
+  if (!(value >= 0 && value <= 1)) {
+    throw new Error(`Invalid threshold in ${condition}: expected an uptime between 0 and 1`);
+  }
+  return registerThresholdCondition(treatment, value);
+}
+
+/**
+ * Register one condition per sweep level and return their names in order.
+ */
+export function registerSweepConditions(spec: SweepSpec): string[] {
+  return spec.values.map((value) => registerThresholdCondition(spec.treatment, value));
+}
+
+/**
+ * Fraction of matched cycles (same trial and cycle index) where two
+ * conditions allocated to the same pool.
+ */
+export function allocationAgreement(a: TrialResults[], b: TrialResults[]): number {
+  let matched = 0;
+  let agreed = 0;
+  for (let t = 0; t < Math.min(a.length, b.length); t++) {
+    const cycles = Math.min(a[t].metrics.length, b[t].metrics.length);
+    for (let c = 0; c < cycles; c++) {
+      matched++;
+      if (a[t].metrics[c].allocation === b[t].metrics[c].allocation) agreed++;
+    }
+  }
+  return matched > 0 ? agreed / matched : 0;
+}
+
+/**
+ * Per-level metrics against the baseline (first condition). Levels are the
+ * remaining conditions, in `spec.values` order.
+ */
+export function summarizeSweep(
+  conditions: NamedConditionResults[],
+  spec: SweepSpec,
+  cyclesPerTrial: number
+): SweepResults {
+  const [baseline, ...levelConditions] = conditions;
+
+  const levels: SweepLevel[] = levelConditions.map((condition, i) => {
+    const burnSavingsPerCycle = (baseline.avgTotalBurn - condition.avgTotalBurn) / cyclesPerTrial;
+    const zauthCostPerCycle = (condition.avgZauthCost - baseline.avgZauthCost) / cyclesPerTrial;
+    return {
+      value: spec.values[i],
+      condition: condition.name,
+      trials: condition.trials.length,
+      burnRate: condition.avgBurnRate,
+      burnRateStdDev: condition.stdDevBurnRate,
+      zauthCostPerCycle,
+      burnSavingsPerCycle,
+      netSavingsPerCycle: burnSavingsPerCycle - zauthCostPerCycle,
+      queriesSkippedPerTrial: condition.avgQueriesSkipped,
+      skippedWouldSucceedPerTrial: condition.avgSkippedWouldSucceed,
+      allocationAgreement: allocationAgreement(baseline.trials, condition.trials),
+    };
+  });
+
+  const peak = levels.reduce(
+    (best, level) => (best === null || level.netSavingsPerCycle > best.netSavingsPerCycle ? level : best),
+    null as SweepLevel | null
+  );
+
+  return {
+    parameter: spec.parameter,
+    treatment: spec.treatment,
+    baseline: baseline.name,
+    levels,
+    peakValue: peak?.value ?? null,
+    peakNetSavingsPerCycle: peak?.netSavingsPerCycle ?? null,
+  };
+}
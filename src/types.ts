@@ -1,5 +1,10 @@
 // Shared TypeScript interfaces for the scientific study
 
+import type { MockZauthBehavior } from "./config.js";
+import type { Scenario } from "./scenario.js";
+import type { SkipDecision } from "./skip-policy.js";
+import type { BootstrapResult, NormalityResult, PermutationResult, WilcoxonResult } from "./statistics.js";
+
 export interface PoolData {
   poolId: string;
   tokenA: string;
@@ -49,7 +54,14 @@ export interface OptimizationResult {
   allocation: Allocation;
   totalSpent: number;
   totalBurn: number;
+  burnByOutcome: BurnByOutcome;
   zauthCost: number;
+  reliabilityChecks: number;  // Oracle checks made this cycle
+  cacheHits: number;          // Checks served from the Zauth check cache
+  skipDecisions: SkipDecision[];  // Every skip-policy decision made this cycle
+  queriesSkipped: number;
+  skippedWouldSucceed: number;    // Skipped queries that would have succeeded (mock counterfactual)
+  skippedWouldFail: number;       // Skipped queries that would have failed (mock counterfactual)
   queriesAttempted: number;
   queriesFailed: number;
 }
@@ -57,10 +69,18 @@ export interface OptimizationResult {
 export interface CycleMetrics {
   spentUsdc: number;
   burnUsdc: number;
+  burnByOutcome: BurnByOutcome;
   zauthCostUsdc: number;
+  reliabilityChecks: number;
+  cacheHits: number;
+  skipDecisions: SkipDecision[];
+  queriesSkipped: number;
+  skippedWouldSucceed: number;
+  skippedWouldFail: number;
   queriesAttempted: number;
   queriesFailed: number;
   latencyMs: number;
+  allocation: string;  // Token pair allocated to, e.g. "SOL-USDC" ("none" without pool data)
 }
 
 export interface TrialResults {
@@ -79,24 +99,214 @@ export interface ConditionResults {
   stdDevBurnRate: number;
   avgQueriesAttempted: number;
   avgQueriesFailed: number;
+  avgBurnByOutcome: BurnByOutcome;
+  avgZauthCost: number;          // Per trial
+  avgReliabilityChecks: number;  // Per trial
+  avgCacheHits: number;          // Per trial
+  avgQueriesSkipped: number;     // Per trial
+  avgSkippedWouldSucceed: number;  // Per trial (mock counterfactual; 0 in real mode)
+  skipConfusion: SkipConfusionMatrix;  // Per trial
+}
+
+// Skip decisions scored against the outcome: skips use the mock counterfactual,
+// passes use what the query actually returned. Every query lands in one cell.
+export interface SkipConfusionMatrix {
+  trueSkip: number;     // Skipped, would have failed
+  falseSkip: number;    // Skipped, would have succeeded: a lost data point
+  truePass: number;     // Queried and succeeded
+  falsePass: number;    // Queried and failed: burn
+  unknownSkip: number;  // Skipped with no counterfactual (real mode)
+}
+
+// One study arm: the oracle registered under `name` (see reliability-oracle.ts)
+export interface NamedConditionResults extends ConditionResults {
+  name: string;
+  costPerCheck: number;  // USDC per reliability check
 }
 
 export interface StudyResults {
-  noZauth: ConditionResults;
-  withZauth: ConditionResults;
-  burnReductionPercent: number;
-  confidenceInterval95: [number, number];
-  pValue: number;
+  noZauth: ConditionResults;    // First condition (baseline)
+  withZauth: ConditionResults;  // Second condition (primary treatment)
+  conditions: NamedConditionResults[];  // Every condition, in StudyConfig.conditions order
+  burnReductionPercent: number | null;           // Ratio of mean burn rates; null when the baseline never burned
+  confidenceInterval95: [number, number] | null;  // Delta-method CI of burnReductionPercent; null when undefined
+  burnRateDifference: BurnRateDifference;
+  zeroBaselineTrials: number;  // Trials whose own reduction ratio is undefined (baseline burn rate 0)
+  pValue: number;  // Paired t-test; see tests.primaryPValue for the one significance claims use
   effectSize: number;
   netSavingsPerCycle: number;
   breakEvenFailureRate: number;
+  breakEven: BreakEvenInputs;
+  tests: BurnRateTests;
+  zauthCache: ZauthCacheSummary;
+  sweep?: SweepResults;  // Present for --sweep studies
+  sequential?: SequentialResults;  // Present for --sequential studies
+  pairwise?: PairwiseComparison[];  // Present with more than two conditions, Holm/Bonferroni corrected
+}
+
+// Baseline vs primary treatment burn rates, one pair per matched trial
+// One pair of study conditions, every pair compared on matched trials
+export interface PairwiseComparison {
+  reference: string;             // Earlier condition in StudyConfig.conditions
+  condition: string;
+  trials: number;
+  burnReductionPercent: number | null;  // condition vs reference, ratio of mean burn rates; null if the reference never burned
+  burnRateDifference: number;    // reference minus condition, percentage points
+  test: "paired-t" | "wilcoxon"; // Wilcoxon when Shapiro-Wilk rejects normality of the differences
+  pValue: number;                // Unadjusted
+  holmPValue: number;
+  bonferroniPValue: number;
+  significant: boolean;          // Holm-adjusted p < 0.05
+}
+
+// Baseline minus primary treatment burn rate, in percentage points
+export interface BurnRateDifference {
+  percentagePoints: number;
+  confidenceInterval95: [number, number];  // Paired t
+}
+
+export interface BurnRateTests {
+  pairedT: { statistic: number; degreesOfFreedom: number; pValue: number };
+  wilcoxon: WilcoxonResult;
+  permutation: PermutationResult;
+  bootstrap: BootstrapResult;         // Burn reduction %, percentile bootstrap over trial pairs
+  normality: NormalityResult | null;  // Paired differences; null with < 3 pairs or no variance
+  normalityViolated: boolean;         // Normality p < 0.05
+  primary: "paired-t" | "wilcoxon";   // Wilcoxon when normality looks violated
+  primaryPValue: number;
+}
+
+// --sequential: group-sequential monitoring of baseline vs primary treatment
+export interface SequentialDesign {
+  method: "obrien-fleming";
+  alpha: number;          // Overall two-sided type I error across all looks
+  futilityPower: number;  // Stop for futility below this conditional power; 0 disables
+  minTrials: number;      // Matched trials before the first look
+}
+
+export interface SequentialLook {
+  trials: number;                   // Matched trials analyzed at this look
+  informationFraction: number;      // trials / plannedTrials
+  tStatistic: number;               // Paired t on burn rates
+  pValue: number;                   // Unadjusted two-sided p
+  zStatistic: number;               // Signed normal score with the same p
+  efficacyBoundary: number;         // |z| needed to stop for efficacy
+  nominalAlpha: number;             // The same boundary as a p-value threshold
+  conditionalPower: number | null;  // Under the current trend; null at the final look
+}
+
+export type StoppingReason = "efficacy" | "futility" | "completed" | "budget" | "interrupted";
+
+export interface SequentialResults {
+  design: SequentialDesign;
+  plannedTrials: number;
+  stoppedAtTrial: number;
+  reason: StoppingReason;
+  rejected: boolean;          // Some look, the final one included, crossed the efficacy boundary
+  boundaryConstant: number;   // c: efficacy boundary is |z| >= c / sqrt(information fraction)
+  looks: SequentialLook[];
+}
+
+// --sweep=threshold:start..end:step
+export interface SweepSpec {
+  parameter: "threshold";
+  values: number[];
+  treatment: string;  // Oracle run at every level
+}
+
+export interface SweepLevel {
+  value: number;
+  condition: string;
+  trials: number;
+  burnRate: number;
+  burnRateStdDev: number;
+  zauthCostPerCycle: number;            // Check cost above the baseline's
+  burnSavingsPerCycle: number;          // vs baseline
+  netSavingsPerCycle: number;           // Burn savings minus check cost
+  queriesSkippedPerTrial: number;
+  skippedWouldSucceedPerTrial: number;  // Mock counterfactual; 0 in real mode
+  allocationAgreement: number;          // 0-1, share of cycles allocating like the baseline
+}
+
+export interface SweepResults {
+  parameter: "threshold";
+  treatment: string;
+  baseline: string;
+  levels: SweepLevel[];
+  peakValue: number | null;             // Level with the highest net savings
+  peakNetSavingsPerCycle: number | null;
+}
+
+// Measured values behind breakEvenFailureRate
+export interface BreakEvenInputs {
+  zauthCostPerCycle: number;   // Primary treatment's measured Zauth spend
+  zauthPricePerCheck: number;  // Last price paid per check
+  checksPerCycle: number;
+  queriesPerCycle: number;     // Baseline queries attempted
+  avgQueryCostUsdc: number;    // Baseline spend per query attempted
+}
+
+// Effect of the Zauth check cache on the primary treatment (second condition)
+export interface ZauthCacheSummary {
+  ttlMs: number;                       // 0 when caching was off
+  staleTtlMs: number;
+  checksPerCycle: number;
+  cacheHitsPerCycle: number;
+  hitRate: number;                     // 0-1
+  zauthCostPerCycle: number;           // What was paid
+  uncachedZauthCostPerCycle: number;   // What every check at costPerCheck would cost
+  netSavingsPerCycle: number;          // Burn savings minus Zauth cost
+  uncachedNetSavingsPerCycle: number;  // Same, without the cache
+}
+
+// Outcome tapes (see outcome-tape.ts): everything a mock trial's endpoints will do, fixed in advance
+export interface TapeZauthCheck {
+  covered: boolean;        // false: Zauth has no data for this endpoint (a coverage gap)
+  uptime: number;          // 0-1, Zauth's estimate: lagged, averaged and noisy per MockZauthBehavior
+  working: boolean;
+  cached: boolean;
+  stale: boolean;
+  responseTimeMs: number;  // Endpoint response time Zauth reports
+  latencyMs: number;       // Simulated latency of the check itself
+}
+
+// One endpoint in one cycle
+export interface TapeCall {
+  failureRate: number;     // Failure probability the endpoint's failure model gave this cycle
+  priceUsdc: number;       // Price charged this cycle (after any price change)
+  success: boolean;
+  latencyMs: number;       // Simulated network latency
+  payload: unknown;        // Response body; an error body when success is false
+  zauth: TapeZauthCheck;   // What a Zauth check before this call reports
+}
+
+export interface OutcomeTape {
+  seed: number;
+  cycles: number;
+  endpoints: Record<string, TapeCall[]>;  // By endpoint URL, one call per cycle
+}
+
+// --export-tapes / --tapes=PATH
+export interface OutcomeTapeFile {
+  version: 3;
+  baseSeed: number;
+  cyclesPerTrial: number;
+  scenario?: Scenario;     // Mock market the tapes were generated from (absent: the default endpoints)
+  tapes: OutcomeTape[];    // One per matched trial, in trial order
 }
 
 export interface StudyConfig {
   trialsPerCondition: number;
   cyclesPerTrial: number;
   baseSeed: number;
-  conditions: ["no-zauth", "with-zauth"];
+  conditions: string[];  // Registered oracle names; first is the baseline, second the primary treatment
+  sweep?: SweepSpec;     // Remaining conditions are the sweep levels, in order
+  sequential?: SequentialDesign;  // Look after every matched trial set and stop early
+  tapeFile?: string;     // Outcome tape file the mock trials replayed (--tapes)
+  failureModels?: string;  // Failure scenario the mock tapes were generated from (--failure-models)
+  scenarioSource?: string; // Built-in scenario name or scenario file (--scenario)
+  scenario?: Scenario;     // Mock market the study ran on, as run (failure models and Zauth flags applied)
+  mockZauth?: MockZauthBehavior;  // Mock Zauth imperfections the tapes were generated with
   outputDir: string;
   mockMode: boolean;
   budgetUsdc?: number; // Optional budget limit for real mode
@@ -161,6 +371,38 @@ export interface DiscoveryStageResult {
   details: EnrichedPrepaymentTestResult[];
 }
 
+// Payment outcome taxonomy (see payment-outcome.ts)
+export type PaymentOutcomeKind =
+  | "pre-payment-rejection"   // Request refused before anything was signed (non-402 error, unparseable requirements, network error)
+  | "signing-failure"         // 402 requirements parsed but the client could not create a payment payload
+  | "settlement-failure"      // Payment sent but the server/facilitator reported settlement failed
+  | "paid-http-error"         // Payment settled, server returned a non-2xx status
+  | "paid-invalid-body"       // Payment settled, body was not JSON or failed validation
+  | "success";
+
+export interface PaymentOutcome {
+  kind: PaymentOutcomeKind;
+  statusCode?: number;              // HTTP status of the last response seen
+  facilitatorErrorReason?: string;  // e.g. "settle_exact_node_failure"
+  transactionHash?: string;         // From the settlement header or facilitator error details
+  detail?: string;                  // Free-form error message for humans
+}
+
+export type BurnByOutcome = Record<PaymentOutcomeKind, number>;
+
+// Settlement receipt for a paid call, auditable against chain data
+export interface SettlementReceipt {
+  transactionHash: string;
+  network: string;          // e.g. "eip155:8453" or "solana:..."
+  payer?: string;           // Paying wallet reported by the server or signed authorization
+  payTo?: string;           // Recipient from the signed authorization
+  asset?: string;           // Token contract / mint address
+  amountAtomic?: string;    // Signed amount in atomic units
+  amountUsdc?: number;      // amountAtomic converted to USDC (6 decimals)
+  settled: boolean;         // false when the hash came from a failed settlement
+  timestamp: string;        // ISO time the receipt was recorded
+}
+
 // Stage 2 Types
 export interface SchemaValidationResult {
   valid: boolean;
@@ -179,15 +421,52 @@ export interface QueryResult {
   latency: number;
   zauthCost?: number;  // Only for with-zauth mode
   skippedByZauth?: boolean;  // Only for with-zauth mode
+  skipDecision?: SkipDecision;  // Expected-value numbers behind the Zauth decision
+  outcome?: PaymentOutcome;  // Absent when skipped by Zauth
+  receipt?: SettlementReceipt;  // Present when a transaction hash was observed
+  priceDrift?: PriceDrift;  // Absent when skipped by Zauth
   error?: string;
 }
 
+// Price seen at each stage for one endpoint (USDC). Drift fields are null when a price is unknown.
+export interface PriceDrift {
+  bazaarPriceUsdc: number;          // Listed in Bazaar discovery
+  stage1PriceUsdc: number | null;   // Parsed from the Stage 1 402 response
+  chargedUsdc: number | null;       // Signed in the payment payload (null if nothing was signed)
+  bazaarToStage1Usdc: number | null;
+  stage1ToChargedUsdc: number | null;
+  bazaarToChargedUsdc: number | null;
+  drifted: boolean;                 // Any known price differs from another
+}
+
 export interface EndpointComparison {
   endpoint: EnrichedPrepaymentTestResult;
   noZauth: QueryResult;
   withZauth: QueryResult;
   burnSavings: number;  // noZauth.burn - withZauth.burn
   netSavings: number;   // burnSavings - withZauth.zauthCost
+  shadowProbe?: QueryResult;  // Paid anyway after with-zauth skipped it; not in either mode's totals
+}
+
+export interface ProportionEstimate {
+  estimate: number;
+  ci95: [number, number];
+  approximate?: boolean;  // ci95 leaves out part of the sampling error, so it is too narrow
+}
+
+// Skip accuracy estimated from shadow probes. Positive = "endpoint fails".
+export interface ShadowProbeSummary {
+  budgetUsdc: number;
+  spentUsdc: number;       // Tracked apart from the comparison budget
+  sampleRate: number;      // Chance each skipped endpoint is probed while budget lasts
+  skipped: number;         // Endpoints with-zauth skipped
+  probed: number;
+  probesFailed: number;    // Probed skips that failed: confirmed true skips
+  probesSucceeded: number; // Probed skips that worked: confirmed false skips
+  truePasses: number;      // Queried by with-zauth and succeeded
+  falsePasses: number;     // Queried by with-zauth and failed
+  precision: ProportionEstimate | null;  // P(fails | skipped); null without probes
+  recall: ProportionEstimate | null;     // P(skipped | fails); null without probes
 }
 
 export interface ModeResults {
@@ -195,6 +474,7 @@ export interface ModeResults {
   totalSpent: number;
   totalBurn: number;
   burnRate: number;
+  burnByOutcome: BurnByOutcome;
   zauthCost: number;  // 0 for no-zauth mode
   queriesAttempted: number;
   queriesFailed: number;
@@ -245,5 +525,6 @@ export interface Stage2Result {
   endpointComparisons: EndpointComparison[];
   comparisonSummary: ComparisonSummary;
   allocationComparison: AllocationComparison;
+  shadowProbes?: ShadowProbeSummary;  // Present when a shadow-probe budget was set
   durationSeconds: number;
 }
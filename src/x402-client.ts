@@ -1,69 +1,108 @@
 import type { Config, Endpoint, Network } from "./config.js";
-import {
-  generateMockResponse,
-  generateMockErrorResponse,
-  isValidResponse,
-} from "./endpoints.js";
+import type { PaymentOutcome, SettlementReceipt, TapeCall } from "./types.js";
+import type { x402Client as X402PaymentClient } from "@x402/fetch";
+import { isValidResponse } from "./endpoints.js";
+import { decodePaymentPayloadHeader, parsePaymentRequiredHeader } from "./payment-parser.js";
+import { decodeSettlementHeader, extractFacilitatorEvidence } from "./payment-outcome.js";
+import { simulateCall, simulateZauthCheck, type TapePlayer } from "./outcome-tape.js";
 
 export interface PaymentResult {
   success: boolean;
   paymentMade: boolean;
+  outcome: PaymentOutcome;
   response: unknown;
   responseValid: boolean;
   latencyMs: number;
+  chargedUsdc?: number;         // Amount signed in the payment payload (undefined if nothing was signed)
+  receipt?: SettlementReceipt;
   error?: string;
 }
 
+// What the wrapped fetch observed during one fetchEndpoint call
+interface PaymentAttempt {
+  initialStatus?: number;
+  requirementsParsed: boolean;
+  paymentSent: boolean;
+  signedPayment?: ReturnType<typeof decodePaymentPayloadHeader>;
+}
+
 // Mock x402 client for testing without real payments
 class MockX402Client {
   private config: Config;
-  private rng: { next: () => number } | null;
+  private tape: TapePlayer | null;
   private mockMode: boolean;
 
-  constructor(config: Config, rng: { next: () => number } | null = null, mockMode: boolean = true) {
+  constructor(
+    config: Config,
+    tape: TapePlayer | null = null,
+    mockMode: boolean = true
+  ) {
     this.config = config;
-    this.rng = rng;
+    this.tape = tape;
     this.mockMode = mockMode;
   }
 
-  private random(): number {
-    return this.rng ? this.rng.next() : Math.random();
+  /**
+   * The endpoint's next call: read from the trial's outcome tape, or simulated
+   * on the spot without one. Queries and skips both consume a call, so the
+   * n-th cycle of an endpoint fails or succeeds alike in every condition.
+   */
+  private nextCall(endpoint: Endpoint): TapeCall {
+    if (this.tape) {
+      return this.tape.next(endpoint.url);
+    }
+    const failureRate = endpoint.mockFailureRate ?? this.config.mockFailureRate;
+    return simulateCall(
+      endpoint,
+      failureRate,
+      endpoint.priceUsdc,
+      { outcome: Math.random, latency: Math.random, data: Math.random },
+      simulateZauthCheck(endpoint, [failureRate], 0, this.config.mockZauth, Math.random)
+    );
+  }
+
+  /**
+   * Counterfactual for a query that was skipped: would it have succeeded?
+   * Uses the call the query itself would have made.
+   */
+  wouldSucceed(endpoint: Endpoint): boolean {
+    return this.nextCall(endpoint).success;
   }
 
   async fetchWithPayment(endpoint: Endpoint): Promise<PaymentResult> {
     const startTime = Date.now();
+    const call = this.nextCall(endpoint);
 
-    // Simulate network latency
-    const latency = endpoint.mockLatencyMs || 200;
-    await this.delay(latency + this.random() * 100);
-
-    // Determine if this request "fails" based on mock failure rate
-    const failureRate = endpoint.mockFailureRate ?? this.config.mockFailureRate;
-    const shouldFail = this.random() < failureRate;
+    // Simulate network latency (tape time moves before the wait, so it never depends on timer order)
+    this.tape?.advance(call.latencyMs);
+    await this.delay(call.latencyMs);
 
     // Payment always "succeeds" in mock mode (simulating the scenario where
     // you pay but get a bad response)
     const paymentMade = true;
 
-    if (shouldFail) {
-      const response = generateMockErrorResponse();
+    if (!call.success) {
+      const error = "Endpoint returned invalid response after payment";
       return {
         success: false,
         paymentMade,
-        response,
+        outcome: { kind: "paid-invalid-body", statusCode: 200, detail: error },
+        response: call.payload,
         responseValid: false,
         latencyMs: Date.now() - startTime,
-        error: "Endpoint returned invalid response after payment",
+        chargedUsdc: call.priceUsdc,
+        error,
       };
     }
 
-    const response = generateMockResponse(endpoint);
     return {
       success: true,
       paymentMade,
-      response,
-      responseValid: isValidResponse(response),
+      outcome: { kind: "success", statusCode: 200 },
+      response: call.payload,
+      responseValid: isValidResponse(call.payload),
       latencyMs: Date.now() - startTime,
+      chargedUsdc: call.priceUsdc,
     };
   }
 
@@ -77,7 +116,8 @@ class MockX402Client {
 class RealX402Client {
   private config: Config;
   private network: Network;
-  private fetchWithPayment: typeof fetch | null = null;
+  private client: X402PaymentClient | null = null;
+  private wrapFetchWithPayment: typeof import("@x402/fetch").wrapFetchWithPayment | null = null;
 
   constructor(config: Config, network: Network = "base") {
     this.config = config;
@@ -109,7 +149,8 @@ class RealX402Client {
         registerExactSvmScheme(client, { signer: svmSigner });
       }
 
-      this.fetchWithPayment = wrapFetchWithPayment(fetch, client);
+      this.client = client;
+      this.wrapFetchWithPayment = wrapFetchWithPayment;
     } catch (error) {
       throw new Error(
         `Failed to initialize x402 client for ${this.network}: ${error instanceof Error ? error.message : String(error)}`
@@ -117,69 +158,273 @@ class RealX402Client {
     }
   }
 
+  /**
+   * Wrap fetch so each call records whether the unpaid request got parseable
+   * 402 requirements and whether a paid retry was sent.
+   */
+  private createTrackingFetch(attempt: PaymentAttempt): typeof fetch {
+    return async (input, init) => {
+      const request = new Request(input, init);
+      const isPaidRequest =
+        request.headers.has("PAYMENT-SIGNATURE") || request.headers.has("X-PAYMENT");
+
+      if (isPaidRequest) {
+        attempt.paymentSent = true;
+        attempt.signedPayment = decodePaymentPayloadHeader(
+          request.headers.get("PAYMENT-SIGNATURE") ?? request.headers.get("X-PAYMENT")
+        );
+        return fetch(request);
+      }
+
+      const response = await fetch(request);
+      attempt.initialStatus = response.status;
+
+      if (response.status === 402) {
+        const header = response.headers.get("payment-required");
+        if (header) {
+          attempt.requirementsParsed = parsePaymentRequiredHeader(header) !== null;
+        } else {
+          // x402 v1 servers send requirements in the body
+          const body = await response.clone().json().catch(() => null);
+          attempt.requirementsParsed = Boolean(body && body.x402Version === 1 && Array.isArray(body.accepts));
+        }
+      }
+
+      return response;
+    };
+  }
+
   async fetchEndpoint(endpoint: Endpoint): Promise<PaymentResult> {
-    if (!this.fetchWithPayment) {
+    if (!this.client || !this.wrapFetchWithPayment) {
       throw new Error("x402 client not initialized. Call initialize() first.");
     }
 
+    const attempt: PaymentAttempt = { requirementsParsed: false, paymentSent: false };
+    const result = await this.fetchAndClassify(endpoint, attempt);
+
+    return {
+      ...result,
+      chargedUsdc: attempt.paymentSent ? signedAmountUsdc(attempt) : undefined,
+    };
+  }
+
+  private async fetchAndClassify(endpoint: Endpoint, attempt: PaymentAttempt): Promise<PaymentResult> {
     const startTime = Date.now();
+    const fetchWithPayment = this.wrapFetchWithPayment!(this.createTrackingFetch(attempt), this.client!);
 
+    let response: Response;
     try {
-      const response = await this.fetchWithPayment(endpoint.url, {
+      response = await fetchWithPayment(endpoint.url, {
         method: "GET",
         headers: {
           Accept: "application/json",
         },
       });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return this.failure(classifyThrownAttempt(attempt, errorMessage), startTime, errorMessage);
+    }
 
-      const latencyMs = Date.now() - startTime;
+    const latencyMs = Date.now() - startTime;
 
+    // Open-access endpoint or pre-payment refusal (e.g. 429): nothing was signed
+    if (!attempt.paymentSent) {
       if (!response.ok) {
-        // 402 and 429 are pre-payment errors (payment not made)
-        // Other 4xx/5xx errors after payment was attempted
-        const isPrePaymentFailure = response.status === 402 || response.status === 429;
-
-        return {
-          success: false,
-          paymentMade: !isPrePaymentFailure,
-          response: null,
-          responseValid: false,
-          latencyMs,
-          error: `HTTP ${response.status}: ${response.statusText}`,
-        };
+        const error = `HTTP ${response.status}: ${response.statusText}`;
+        return this.failure(
+          { kind: "pre-payment-rejection", statusCode: response.status, detail: error },
+          startTime,
+          error
+        );
       }
+      return this.parseBody(response, { kind: "success", statusCode: response.status }, false, latencyMs);
+    }
 
-      const data = await response.json();
-      const responseValid = isValidResponse(data);
+    const settlement = decodeSettlementHeader(
+      response.headers.get("PAYMENT-RESPONSE") ?? response.headers.get("X-PAYMENT-RESPONSE")
+    );
+
+    // Paid retry refused with another 402: settlement failed
+    if (response.status === 402) {
+      const body = await response.json().catch(() => null);
+      const evidence = extractFacilitatorEvidence(body);
+      const error = `HTTP 402: ${body?.error ?? response.statusText}`;
+      const transactionHash = evidence.transaction ?? settlement?.transaction;
+      return this.failure(
+        {
+          kind: "settlement-failure",
+          statusCode: 402,
+          facilitatorErrorReason: evidence.errorReason ?? settlement?.errorReason,
+          transactionHash,
+          detail: error,
+        },
+        startTime,
+        error,
+        buildReceipt(attempt, settlement, transactionHash, false)
+      );
+    }
 
-      return {
-        success: responseValid,
-        paymentMade: true,
-        response: data,
-        responseValid,
-        latencyMs,
-        error: responseValid ? undefined : "Response validation failed",
-      };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
+    if (!response.ok) {
+      const error = `HTTP ${response.status}: ${response.statusText}`;
+      return this.failure(
+        {
+          kind: "paid-http-error",
+          statusCode: response.status,
+          transactionHash: settlement?.transaction,
+          detail: error,
+        },
+        startTime,
+        error,
+        buildReceipt(attempt, settlement, settlement?.transaction, settlement?.success !== false)
+      );
+    }
 
-      // Check if error indicates payment was NOT made (pre-payment failures)
-      const isPrePaymentFailure =
-        errorMessage.includes('Failed to create payment') ||
-        errorMessage.includes('429') ||
-        errorMessage.includes('Too Many Requests') ||
-        errorMessage.includes('402') ||
-        errorMessage.includes('Payment Required');
+    return this.parseBody(
+      response,
+      { kind: "success", statusCode: response.status, transactionHash: settlement?.transaction },
+      true,
+      latencyMs,
+      buildReceipt(attempt, settlement, settlement?.transaction, settlement?.success !== false)
+    );
+  }
 
+  /**
+   * Parse and validate a 2xx body. Demotes `outcome` to paid-invalid-body when
+   * a paid response is not JSON or fails validation.
+   */
+  private async parseBody(
+    response: Response,
+    outcome: PaymentOutcome,
+    paymentMade: boolean,
+    latencyMs: number,
+    receipt?: SettlementReceipt
+  ): Promise<PaymentResult> {
+    let data: unknown;
+    try {
+      data = await response.json();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
       return {
         success: false,
-        paymentMade: !isPrePaymentFailure, // Only true if payment actually attempted
+        paymentMade,
+        outcome: paymentMade
+          ? { ...outcome, kind: "paid-invalid-body", detail: errorMessage }
+          : { ...outcome, detail: errorMessage },
         response: null,
         responseValid: false,
-        latencyMs: Date.now() - startTime,
+        latencyMs,
+        receipt,
         error: errorMessage,
       };
     }
+
+    const responseValid = isValidResponse(data);
+    const error = responseValid ? undefined : "Response validation failed";
+
+    return {
+      success: responseValid,
+      paymentMade,
+      outcome: responseValid || !paymentMade
+        ? outcome
+        : { ...outcome, kind: "paid-invalid-body", detail: error },
+      response: data,
+      responseValid,
+      latencyMs,
+      receipt,
+      error,
+    };
+  }
+
+  private failure(
+    outcome: PaymentOutcome,
+    startTime: number,
+    error: string,
+    receipt?: SettlementReceipt
+  ): PaymentResult {
+    return {
+      success: false,
+      paymentMade: isPaymentMade(outcome),
+      outcome,
+      response: null,
+      responseValid: false,
+      latencyMs: Date.now() - startTime,
+      receipt,
+      error,
+    };
+  }
+}
+
+/**
+ * Classify an attempt that threw before a response was returned.
+ */
+function classifyThrownAttempt(attempt: PaymentAttempt, errorMessage: string): PaymentOutcome {
+  if (attempt.paymentSent) {
+    // The paid retry never got a response; the server may or may not have settled
+    return { kind: "settlement-failure", detail: errorMessage };
+  }
+  if (attempt.initialStatus === 402 && attempt.requirementsParsed) {
+    return { kind: "signing-failure", statusCode: 402, detail: errorMessage };
+  }
+  return { kind: "pre-payment-rejection", statusCode: attempt.initialStatus, detail: errorMessage };
+}
+
+/**
+ * Build a settlement receipt from the settlement header and the signed payment.
+ * Returns undefined when no transaction hash was observed.
+ */
+function buildReceipt(
+  attempt: PaymentAttempt,
+  settlement: ReturnType<typeof decodeSettlementHeader>,
+  transactionHash: string | undefined,
+  settled: boolean
+): SettlementReceipt | undefined {
+  if (!transactionHash) {
+    return undefined;
+  }
+
+  const signed = attempt.signedPayment;
+
+  return {
+    transactionHash,
+    network: settlement?.network ?? signed?.network ?? "unknown",
+    payer: settlement?.payer ?? signed?.payer,
+    payTo: signed?.payTo,
+    asset: signed?.asset,
+    amountAtomic: signed?.amountAtomic,
+    amountUsdc: signedAmountUsdc(attempt),
+    settled,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Amount signed in the payment payload, in USDC (6 decimals).
+ */
+function signedAmountUsdc(attempt: PaymentAttempt): number | undefined {
+  const amountAtomic = attempt.signedPayment?.amountAtomic;
+  if (amountAtomic === undefined) {
+    return undefined;
+  }
+  const amountUsdc = Number(amountAtomic) / 1_000_000;
+  return Number.isFinite(amountUsdc) ? amountUsdc : undefined;
+}
+
+/**
+ * Whether funds may have left the wallet for a failed outcome.
+ * A settlement failure counts as paid when a transaction hash was reported
+ * (the transfer was broadcast) or when the paid retry got no response at all.
+ */
+function isPaymentMade(outcome: PaymentOutcome): boolean {
+  switch (outcome.kind) {
+    case "pre-payment-rejection":
+    case "signing-failure":
+      return false;
+    case "settlement-failure":
+      return outcome.transactionHash !== undefined || outcome.statusCode === undefined;
+    case "paid-http-error":
+    case "paid-invalid-body":
+    case "success":
+      return true;
   }
 }
 
@@ -196,13 +441,13 @@ export async function createX402Client(
   return realClient;
 }
 
-// Factory function for study runner with seeded random
+// Factory function for study runner, replaying the trial's outcome tape
 export function createMockX402Client(
   config: Config,
-  rng: { next: () => number },
+  tape: TapePlayer | null,
   mockMode: boolean = true
 ): MockX402Client {
-  return new MockX402Client(config, rng, mockMode);
+  return new MockX402Client(config, tape, mockMode);
 }
 
 // Factory function for real x402 client
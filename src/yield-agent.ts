@@ -1,6 +1,6 @@
 import type { Config, Endpoint, Network } from "./config.js";
 import type { PaymentResult } from "./x402-client.js";
-import type { ZauthCheckResult } from "./zauth-client.js";
+import type { ReliabilityOracle } from "./reliability-oracle.js";
 import {
   type PoolData,
   type WhaleMove,
@@ -11,30 +11,39 @@ import {
   type DiscoveryStageResult,
   type QueryResult,
   type EnrichedPrepaymentTestResult,
+  type BurnByOutcome,
 } from "./types.js";
 import { queryEndpoint } from "./x402-client.js";
-import { checkEndpointReliability } from "./zauth-client.js";
 import { MOCK_ENDPOINTS } from "./endpoints.js";
 import { getRealEndpointsAsEndpoints } from "./real-endpoints.js";
 import { testPrepaymentBatch } from "./prepayment-tester.js";
 import { validateResponse } from "./stage2-validator.js";
+import { emptyBurnByOutcome } from "./payment-outcome.js";
+import { computePriceDrift } from "./payment-parser.js";
+import type { SkipDecision } from "./skip-policy.js";
 
-type AgentMode = "no-zauth" | "with-zauth";
+// Condition label, e.g. "no-zauth", "with-zauth" or any registered oracle name
+type AgentMode = string;
 type EndpointSource = "mock" | "real";
 
-const RELIABILITY_THRESHOLD = 0.70;
-
 export class YieldOptimizerAgent {
   private mode: AgentMode;
   private config: Config;
   private x402Client: any;
-  private zauthClient: any;
+  private oracle?: ReliabilityOracle;
   private endpointSource: EndpointSource;
   private network: Network;
   private bazaarClient?: any;
   private totalSpent: number = 0;
   private totalBurn: number = 0;
+  private burnByOutcome: BurnByOutcome = emptyBurnByOutcome();
   private zauthCost: number = 0;
+  private reliabilityChecks: number = 0;
+  private cacheHits: number = 0;
+  private skipDecisions: SkipDecision[] = [];
+  private queriesSkipped: number = 0;
+  private skippedWouldSucceed: number = 0;
+  private skippedWouldFail: number = 0;
   private queriesAttempted: number = 0;
   private queriesFailed: number = 0;
   private lastFilteringStats?: any; // Store filtering stats from last discovery
@@ -43,7 +52,7 @@ export class YieldOptimizerAgent {
     mode: AgentMode,
     config: Config,
     x402Client: any,
-    zauthClient?: any,
+    oracle?: ReliabilityOracle,
     endpointSource: EndpointSource = "mock",
     network: Network = "base",
     bazaarClient?: any
@@ -51,7 +60,7 @@ export class YieldOptimizerAgent {
     this.mode = mode;
     this.config = config;
     this.x402Client = x402Client;
-    this.zauthClient = zauthClient;
+    this.oracle = oracle;
     this.endpointSource = endpointSource;
     this.network = network;
     this.bazaarClient = bazaarClient;
@@ -71,7 +80,7 @@ export class YieldOptimizerAgent {
         this.config
       ) as Promise<Endpoint[]>;
     }
-    return MOCK_ENDPOINTS;
+    return this.config.mockEndpoints ?? MOCK_ENDPOINTS;
   }
 
   /**
@@ -107,13 +116,14 @@ export class YieldOptimizerAgent {
     }
 
     // Mock mode - no stats
+    const endpoints = this.config.mockEndpoints ?? MOCK_ENDPOINTS;
     return {
-      endpoints: MOCK_ENDPOINTS,
+      endpoints,
       stats: {
         bazaarTotal: 0,
         afterNetworkFilter: 0,
         afterCategoryFilter: 0,
-        finalEndpoints: MOCK_ENDPOINTS.length,
+        finalEndpoints: endpoints.length,
         filteredOutByNetwork: 0,
         filteredOutByCategory: 0,
         categoryBreakdown: { pool: 0, whale: 0, sentiment: 0, unclassified: 0 }
@@ -182,7 +192,14 @@ export class YieldOptimizerAgent {
     // Reset cycle metrics
     this.totalSpent = 0;
     this.totalBurn = 0;
+    this.burnByOutcome = emptyBurnByOutcome();
     this.zauthCost = 0;
+    this.reliabilityChecks = 0;
+    this.cacheHits = 0;
+    this.skipDecisions = [];
+    this.queriesSkipped = 0;
+    this.skippedWouldSucceed = 0;
+    this.skippedWouldFail = 0;
     this.queriesAttempted = 0;
     this.queriesFailed = 0;
 
@@ -206,7 +223,14 @@ export class YieldOptimizerAgent {
       allocation,
       totalSpent: this.totalSpent,
       totalBurn: this.totalBurn,
+      burnByOutcome: this.burnByOutcome,
       zauthCost: this.zauthCost,
+      reliabilityChecks: this.reliabilityChecks,
+      cacheHits: this.cacheHits,
+      skipDecisions: this.skipDecisions,
+      queriesSkipped: this.queriesSkipped,
+      skippedWouldSucceed: this.skippedWouldSucceed,
+      skippedWouldFail: this.skippedWouldFail,
       queriesAttempted: this.queriesAttempted,
       queriesFailed: this.queriesFailed,
     };
@@ -370,23 +394,36 @@ export class YieldOptimizerAgent {
   private async queryWithOptionalZauth(endpoint: Endpoint): Promise<unknown | null> {
     this.queriesAttempted++;
 
-    // Check reliability with Zauth if in with-zauth mode
-    if (this.mode === "with-zauth" && this.zauthClient) {
-      const zauthCheck: ZauthCheckResult = await checkEndpointReliability(
-        this.zauthClient,
-        endpoint
-      );
-
-      // Track zauth cost (mock: $0.001 per check)
-      const zauthCheckCost = 0.001;
-      this.zauthCost += zauthCheckCost;
-      this.totalSpent += zauthCheckCost;
+    // Check reliability with the oracle, if any
+    if (this.oracle) {
+      const check = await this.oracle.check(endpoint);
+
+      // Track check cost (reported as zauthCost for every oracle)
+      const checkCost = check.costUsdc ?? this.oracle.costPerCheck;
+      this.zauthCost += checkCost;
+      this.totalSpent += checkCost;
+      this.reliabilityChecks++;
+      if (check.cache === "hit" || check.cache === "stale") {
+        this.cacheHits++;
+      }
+      if (check.decision) {
+        this.skipDecisions.push(check.decision);
+      }
 
       // Skip if unreliable
-      if (zauthCheck.shouldSkip) {
+      if (check.shouldSkip) {
+        this.queriesSkipped++;
+        // Mock clients can say how the skipped query would have gone
+        if (typeof this.x402Client.wouldSucceed === "function") {
+          if (this.x402Client.wouldSucceed(endpoint)) {
+            this.skippedWouldSucceed++;
+          } else {
+            this.skippedWouldFail++;
+          }
+        }
         if (this.config.verbose) {
           console.log(
-            `[Zauth] Skipping ${endpoint.name}: ${zauthCheck.skipReason}`
+            `[${this.oracle.name}] Skipping ${endpoint.name}: ${check.skipReason}`
           );
         }
         return null;
@@ -400,14 +437,18 @@ export class YieldOptimizerAgent {
       this.config
     );
 
-    this.totalSpent += endpoint.priceUsdc;
+    // Charge what was actually signed; nothing if no payment was made
+    const spent = result.paymentMade ? result.chargedUsdc ?? endpoint.priceUsdc : 0;
+    this.totalSpent += spent;
+    this.oracle?.recordOutcome?.(endpoint, result.success && result.responseValid, spent, result.latencyMs);
 
     if (!result.success || !result.responseValid) {
       this.queriesFailed++;
-      this.totalBurn += endpoint.priceUsdc;
+      this.totalBurn += spent;
+      this.burnByOutcome[result.outcome.kind] += spent;
       if (this.config.verbose) {
         console.log(
-          `[Burn] ${endpoint.name} failed: ${result.error || "Invalid response"}`
+          `[Burn] ${endpoint.name} failed (${result.outcome.kind}): ${result.error || "Invalid response"}`
         );
       }
       return null;
@@ -476,18 +517,20 @@ export class YieldOptimizerAgent {
       metadata: endpoint.metadata
     };
 
-    // Check zauth if in with-zauth mode
+    // Check reliability with the oracle, if any
     let zauthCost = 0;
-    if (this.mode === 'with-zauth' && this.zauthClient) {
-      const zauthCheck = await checkEndpointReliability(this.zauthClient, endpointObj);
+    let skipDecision: SkipDecision | undefined;
+    if (this.oracle) {
+      const check = await this.oracle.check(endpointObj);
+      skipDecision = check.decision;
 
-      zauthCost = 0.001;
+      zauthCost = check.costUsdc ?? this.oracle.costPerCheck;
       this.zauthCost += zauthCost;
       this.totalSpent += zauthCost;
 
-      if (zauthCheck.shouldSkip) {
+      if (check.shouldSkip) {
         if (this.config.verbose) {
-          console.log(`[Zauth] Skipping ${endpoint.name}: ${zauthCheck.skipReason}`);
+          console.log(`[${this.oracle.name}] Skipping ${endpoint.name}: ${check.skipReason}`);
         }
         return {
           endpoint,
@@ -504,7 +547,8 @@ export class YieldOptimizerAgent {
           latency: Date.now() - startTime,
           zauthCost,
           skippedByZauth: true,
-          error: zauthCheck.skipReason || undefined
+          skipDecision,
+          error: check.skipReason || undefined
         };
       }
     }
@@ -512,12 +556,14 @@ export class YieldOptimizerAgent {
     // Query with x402 payment
     const paymentResult = await queryEndpoint(this.x402Client, endpointObj, this.config);
 
-    const spent = paymentResult.paymentMade ? endpointObj.priceUsdc : 0;
+    const spent = paymentResult.paymentMade ? paymentResult.chargedUsdc ?? endpointObj.priceUsdc : 0;
     const burn = paymentResult.success ? 0 : spent;
+    this.oracle?.recordOutcome?.(endpointObj, paymentResult.success, spent, paymentResult.latencyMs);
 
     if (!paymentResult.success) {
       this.queriesFailed++;
       this.totalBurn += burn;
+      this.burnByOutcome[paymentResult.outcome.kind] += burn;
     }
 
     this.totalSpent += spent;
@@ -541,7 +587,11 @@ export class YieldOptimizerAgent {
       spent,
       burn,
       latency: Date.now() - startTime,
-      zauthCost: this.mode === 'with-zauth' ? zauthCost : undefined,
+      zauthCost: this.oracle ? zauthCost : undefined,
+      skipDecision,
+      outcome: paymentResult.outcome,
+      receipt: paymentResult.receipt,
+      priceDrift: computePriceDrift(endpoint.price, endpoint.requested402Price, paymentResult.chargedUsdc),
       error: paymentResult.error || validationResult.error
     };
   }
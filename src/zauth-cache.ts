@@ -0,0 +1,168 @@
+/**
+ * ZauthCheckCache - TTL cache for Zauth reliability checks
+ *
+ * Every Zauth check is a paid x402 call, and the agent re-checks the same
+ * endpoints every cycle. The cache keeps each check result for `ttlMs`:
+ * - fresh hit (age < ttl): served from cache, no payment
+ * - stale hit (age < ttl + staleTtl): served from cache while a paid
+ *   revalidation runs in the background
+ * - miss: paid check, result stored
+ *
+ * Zauth's own `cached` / `stale` flags are honoured: a response Zauth marks
+ * `stale` is never stored, and a response Zauth served from its own cache is
+ * stored for half the TTL because its real age is unknown. Checks that did not
+ * complete (`checked: false`) are never stored.
+ *
+ * Ages are measured on `now`. Mock studies pass the trial's tape time, and a
+ * mock check moves that clock as soon as it starts, so an entry's age is taken
+ * from the clock right after its check is requested. A background
+ * revalidation counts as done once the clock has passed that point: a lookup
+ * then waits for it rather than racing it, so which answer is served depends
+ * only on the clock, never on timer order. A revalidation that fails is
+ * dropped and the stale entry is served until its grace period ends.
+ */
+
+import type { Endpoint } from "./config.js";
+import type { ZauthCheckResult } from "./zauth-client.js";
+
+export type CacheLookup = "hit" | "stale" | "miss";
+
+export interface ZauthCacheConfig {
+  ttlMs: number;             // 0 disables caching
+  staleTtlMs?: number;       // Grace period after expiry (default: 0)
+  now?: () => number;        // Clock (default: Date.now; mock studies: tape time)
+}
+
+export interface ZauthCacheStats {
+  lookups: number;
+  hits: number;              // Fresh hits (no payment)
+  staleHits: number;         // Served stale, revalidated in background
+  misses: number;
+  upstreamCached: number;    // Responses Zauth served from its own cache
+  upstreamStale: number;     // Responses Zauth marked stale (not stored)
+}
+
+interface CacheEntry {
+  result: ZauthCheckResult;
+  storedAt: number;
+  ttlMs: number;
+}
+
+interface Revalidation {
+  done: Promise<void>;
+  readyAt: number;           // Clock time the revalidated check counts as answered
+}
+
+export class ZauthCheckCache {
+  private readonly ttlMs: number;
+  private readonly staleTtlMs: number;
+  private readonly now: () => number;
+  private readonly entries: Map<string, CacheEntry> = new Map();
+  private readonly revalidating: Map<string, Revalidation> = new Map();
+  private stats: ZauthCacheStats = {
+    lookups: 0,
+    hits: 0,
+    staleHits: 0,
+    misses: 0,
+    upstreamCached: 0,
+    upstreamStale: 0,
+  };
+
+  constructor(config: ZauthCacheConfig) {
+    this.ttlMs = config.ttlMs;
+    this.staleTtlMs = config.staleTtlMs ?? 0;
+    this.now = config.now ?? Date.now;
+  }
+
+  /**
+   * Return a cached check for the endpoint, or run `fetchCheck` and store it.
+   */
+  async get(
+    endpoint: Endpoint,
+    fetchCheck: (endpoint: Endpoint) => Promise<ZauthCheckResult>
+  ): Promise<{ result: ZauthCheckResult; lookup: CacheLookup }> {
+    this.stats.lookups++;
+
+    const pending = this.revalidating.get(endpoint.url);
+    if (pending && pending.readyAt <= this.now()) {
+      await pending.done;
+    }
+
+    const entry = this.entries.get(endpoint.url);
+    if (entry) {
+      const age = this.now() - entry.storedAt;
+      if (age < entry.ttlMs) {
+        this.stats.hits++;
+        return { result: { ...entry.result, latencyMs: 0 }, lookup: "hit" };
+      }
+      if (age < entry.ttlMs + this.staleTtlMs) {
+        this.stats.staleHits++;
+        this.revalidate(endpoint, fetchCheck);
+        return { result: { ...entry.result, latencyMs: 0 }, lookup: "stale" };
+      }
+      this.entries.delete(endpoint.url);
+    }
+
+    this.stats.misses++;
+    const fetching = fetchCheck(endpoint);
+    const storedAt = this.now();
+    const result = await fetching;
+    this.store(endpoint.url, result, storedAt);
+    return { result, lookup: "miss" };
+  }
+
+  /**
+   * Wait for any background revalidations still in flight.
+   */
+  async settle(): Promise<void> {
+    await Promise.all([...this.revalidating.values()].map((r) => r.done));
+  }
+
+  getStats(): ZauthCacheStats {
+    return { ...this.stats };
+  }
+
+  private revalidate(
+    endpoint: Endpoint,
+    fetchCheck: (endpoint: Endpoint) => Promise<ZauthCheckResult>
+  ): void {
+    if (this.revalidating.has(endpoint.url)) {
+      return;
+    }
+    const fetching = fetchCheck(endpoint);
+    const readyAt = this.now();
+    // A failed revalidation keeps the stale entry; it is not rethrown into later lookups
+    const done = fetching
+      .then((result) => this.store(endpoint.url, result, readyAt))
+      .catch(() => {})
+      .finally(() => this.revalidating.delete(endpoint.url));
+    this.revalidating.set(endpoint.url, { done, readyAt });
+  }
+
+  private store(url: string, result: ZauthCheckResult, storedAt: number): void {
+    if (!result.checked) {
+      return;
+    }
+    if (result.response?.stale) {
+      this.stats.upstreamStale++;
+      this.entries.delete(url);
+      return;
+    }
+
+    let ttlMs = this.ttlMs;
+    if (result.response?.cached) {
+      this.stats.upstreamCached++;
+      ttlMs = this.ttlMs / 2;
+    }
+    this.entries.set(url, { result, storedAt, ttlMs });
+  }
+}
+
+/**
+ * Factory function to create a ZauthCheckCache
+ * @param config - TTL and stale-while-revalidate window
+ * @returns New ZauthCheckCache instance
+ */
+export function createZauthCheckCache(config: ZauthCacheConfig): ZauthCheckCache {
+  return new ZauthCheckCache(config);
+}
@@ -5,6 +5,9 @@ import type {
   ZauthHealthCheckResponse,
   ZauthDirectoryEntry,
 } from "./config.js";
+import { decodePaymentPayloadHeader } from "./payment-parser.js";
+import { DEFAULT_RELIABILITY_THRESHOLD as RELIABILITY_THRESHOLD } from "./skip-policy.js";
+import { simulateZauthCheck, type TapePlayer } from "./outcome-tape.js";
 
 export interface ZauthCheckResult {
   checked: boolean;
@@ -15,42 +18,61 @@ export interface ZauthCheckResult {
   response: ZauthHealthCheckResponse | null;
   latencyMs: number;
   error?: string;
+  costUsdc?: number; // Price paid for this check (0 when no payment was signed)
 }
 
-// Threshold for considering an endpoint reliable
-const RELIABILITY_THRESHOLD = 0.70; // 70% uptime minimum
-
 // Mock Zauth client for testing
 class MockZauthClient {
   private config: Config;
-  private rng: { next: () => number } | null;
+  private tape: TapePlayer | null;
 
-  constructor(config: Config, rng: { next: () => number } | null = null) {
+  constructor(config: Config, tape: TapePlayer | null = null) {
     this.config = config;
-    this.rng = rng;
-  }
-
-  private random(): number {
-    return this.rng ? this.rng.next() : Math.random();
+    this.tape = tape;
   }
 
   async checkEndpoint(endpoint: Endpoint): Promise<ZauthCheckResult> {
     const startTime = Date.now();
+    // The check reported on the tape for the call the agent is about to make
+    const check = this.tape
+      ? this.tape.peek(endpoint.url).zauth
+      : simulateZauthCheck(
+          endpoint,
+          [endpoint.mockFailureRate ?? this.config.mockFailureRate],
+          0,
+          this.config.mockZauth,
+          Math.random
+        );
+
+    // Simulate network latency (tape time moves before the wait, so it never depends on timer order)
+    this.tape?.advance(check.latencyMs);
+    await this.delay(check.latencyMs);
 
-    // Simulate network latency
-    await this.delay(50 + this.random() * 50);
+    // Coverage gap: paid for, but nothing to go on, so fail open like a failed real check
+    if (!check.covered) {
+      return {
+        checked: false,
+        reliable: true,
+        score: 100,
+        shouldSkip: false,
+        skipReason: null,
+        response: null,
+        latencyMs: Date.now() - startTime,
+        error: "Zauth has no data for this endpoint",
+        costUsdc: this.config.mockZauthPriceUsdc,
+      };
+    }
 
-    // In mock mode, zauth "knows" the mock failure rates and reports accordingly
-    const failureRate = endpoint.mockFailureRate ?? this.config.mockFailureRate;
-    const uptime = 1 - failureRate;
-    const working = this.random() > failureRate * 0.5; // Current check has better odds
+    // Uptime as the mock Zauth estimates it (see MockZauthBehavior), not the true rate
+    const uptime = check.uptime;
+    const working = check.working;
 
     const response: ZauthHealthCheckResponse = {
       working,
       uptime: uptime * 100,
-      cached: this.random() > 0.7,
-      stale: this.random() > 0.9,
-      responseTime: (endpoint.mockLatencyMs || 200) + this.random() * 100,
+      cached: check.cached,
+      stale: check.stale,
+      responseTime: check.responseTimeMs,
     };
 
     const score = uptime * 100;
@@ -72,6 +94,7 @@ class MockZauthClient {
       skipReason,
       response,
       latencyMs: Date.now() - startTime,
+      costUsdc: this.config.mockZauthPriceUsdc,
     };
   }
 
@@ -109,7 +132,8 @@ class MockZauthClient {
 class RealZauthClient {
   private config: Config;
   private network: Network;
-  private x402Fetch: typeof fetch | null = null;
+  private client: any = null;
+  private wrapFetchWithPayment: typeof import("@x402/fetch").wrapFetchWithPayment | null = null;
 
   constructor(config: Config, network: Network = "base") {
     this.config = config;
@@ -141,7 +165,8 @@ class RealZauthClient {
         registerExactSvmScheme(client, { signer: svmSigner });
       }
 
-      this.x402Fetch = wrapFetchWithPayment(fetch, client);
+      this.client = client;
+      this.wrapFetchWithPayment = wrapFetchWithPayment;
     } catch (error) {
       console.warn(
         `Failed to initialize x402 for zauth on ${this.network}. Health checks will be skipped:`,
@@ -153,7 +178,7 @@ class RealZauthClient {
   async checkEndpoint(endpoint: Endpoint): Promise<ZauthCheckResult> {
     const startTime = Date.now();
 
-    if (!this.x402Fetch) {
+    if (!this.client || !this.wrapFetchWithPayment) {
       return {
         checked: false,
         reliable: true, // Assume reliable if we can't check
@@ -163,11 +188,31 @@ class RealZauthClient {
         response: null,
         latencyMs: Date.now() - startTime,
         error: "Zauth client not initialized",
+        costUsdc: 0,
       };
     }
 
+    // Record what the paid retry actually signed, so the check is charged at its real price
+    let signedAmountAtomic: string | undefined;
+    let paymentSent = false;
+    const trackingFetch: typeof fetch = async (input, init) => {
+      const request = new Request(input, init);
+      const signature = request.headers.get("PAYMENT-SIGNATURE") ?? request.headers.get("X-PAYMENT");
+      if (signature) {
+        paymentSent = true;
+        signedAmountAtomic = decodePaymentPayloadHeader(signature)?.amountAtomic;
+      }
+      return fetch(request);
+    };
+    const paidCost = (): number => {
+      if (!paymentSent) return 0;
+      const amountUsdc = Number(signedAmountAtomic) / 1_000_000;
+      return Number.isFinite(amountUsdc) ? amountUsdc : 0;
+    };
+
     try {
-      const response = await this.x402Fetch(this.config.zauthCheckUrl, {
+      const x402Fetch = this.wrapFetchWithPayment(trackingFetch, this.client);
+      const response = await x402Fetch(this.config.zauthCheckUrl, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -188,6 +233,7 @@ class RealZauthClient {
           response: null,
           latencyMs,
           error: `Zauth API error: ${response.status}`,
+          costUsdc: paidCost(),
         };
       }
 
@@ -211,6 +257,7 @@ class RealZauthClient {
         skipReason,
         response: data,
         latencyMs,
+        costUsdc: paidCost(),
       };
     } catch (error) {
       return {
@@ -222,6 +269,7 @@ class RealZauthClient {
         response: null,
         latencyMs: Date.now() - startTime,
         error: error instanceof Error ? error.message : String(error),
+        costUsdc: paidCost(),
       };
     }
   }
@@ -282,12 +330,12 @@ export async function checkEndpointReliability(
   return client.checkEndpoint(endpoint);
 }
 
-// Factory function for study runner with seeded random
+// Factory function for study runner, reading checks from the trial's outcome tape
 export function createMockZauthClient(
   config: Config,
-  rng: { next: () => number }
+  tape: TapePlayer | null
 ): MockZauthClient {
-  return new MockZauthClient(config, rng);
+  return new MockZauthClient(config, tape);
 }
 
 // Factory function for real mode (used by study runner)
@@ -0,0 +1,114 @@
+/**
+ * Regression tests for the settle-timeout race (402-payment-timeout-analysis.md):
+ * a paid request whose facilitator gives up before confirmation must still be
+ * classified as `paymentMade`, because the transfer lands on-chain.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { generatePrivateKey } from "viem/accounts";
+import { loadConfig, type Endpoint } from "../src/config.js";
+import { startFacilitatorSimulator, type FacilitatorSimulator } from "../src/facilitator-simulator.js";
+import { startStandInServer, type StandInServer } from "../src/stand-in-server.js";
+import { createRealX402Client } from "../src/x402-client.js";
+
+const POOL_ROUTE = {
+  path: "/pools",
+  name: "Stand-in Pools",
+  category: "pool" as const,
+  priceUsdc: 0.002,
+  profile: "success" as const,
+};
+
+async function startStack(confirmationDelayMs: number, settleDeadlineMs: number) {
+  const facilitator = await startFacilitatorSimulator({ confirmationDelayMs, settleDeadlineMs });
+  const server = await startStandInServer({ facilitatorUrl: facilitator.url, routes: [POOL_ROUTE] });
+  return { facilitator, server };
+}
+
+function poolEndpoint(server: StandInServer): Endpoint {
+  return { url: `${server.url}${POOL_ROUTE.path}`, name: POOL_ROUTE.name, category: "pool", priceUsdc: POOL_ROUTE.priceUsdc };
+}
+
+async function payFor(server: StandInServer) {
+  const client = await createRealX402Client({ ...loadConfig(), evmPrivateKey: generatePrivateKey() });
+  return client.fetchEndpoint(poolEndpoint(server));
+}
+
+describe("settle-timeout race", () => {
+  let facilitator: FacilitatorSimulator;
+  let server: StandInServer;
+
+  before(async () => {
+    ({ facilitator, server } = await startStack(200, 50));
+  });
+
+  after(async () => {
+    await server.close();
+    await facilitator.close();
+  });
+
+  it("classifies a settle timeout that confirmed on-chain as paymentMade", async () => {
+    const result = await payFor(server);
+
+    assert.equal(facilitator.settlements.length, 1);
+    const [settlement] = facilitator.settlements;
+    assert.equal(settlement.outcome, "timeout");
+    assert.equal(settlement.confirmedOnChain, true);
+
+    assert.equal(result.success, false);
+    assert.equal(result.outcome.kind, "settlement-failure");
+    assert.equal(result.outcome.facilitatorErrorReason, "settle_exact_node_failure");
+    assert.equal(result.outcome.transactionHash, settlement.transaction);
+    assert.equal(result.paymentMade, settlement.confirmedOnChain);
+  });
+});
+
+describe("settlement before the deadline", () => {
+  let facilitator: FacilitatorSimulator;
+  let server: StandInServer;
+
+  before(async () => {
+    ({ facilitator, server } = await startStack(10, 500));
+  });
+
+  after(async () => {
+    await server.close();
+    await facilitator.close();
+  });
+
+  it("returns data and records a settled transfer", async () => {
+    const result = await payFor(server);
+
+    assert.equal(facilitator.settlements.length, 1);
+    assert.equal(facilitator.settlements[0].outcome, "settled");
+    assert.equal(result.success, true);
+    assert.equal(result.outcome.kind, "success");
+    assert.equal(result.outcome.transactionHash, facilitator.settlements[0].transaction);
+    assert.equal(result.paymentMade, true);
+  });
+});
+
+describe("facilitator JSON-RPC stand-in", () => {
+  let facilitator: FacilitatorSimulator;
+
+  before(async () => {
+    facilitator = await startFacilitatorSimulator();
+  });
+
+  after(async () => {
+    await facilitator.close();
+  });
+
+  it("answers a malformed block tag with a JSON-RPC error", async () => {
+    const response = await fetch(`${facilitator.url}/rpc`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 7, method: "eth_getLogs", params: [{ fromBlock: "not-a-block" }] }),
+    });
+    const body = await response.json();
+
+    assert.equal(body.id, 7);
+    assert.equal(body.error.code, -32602);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Reconciliation against the facilitator simulator's JSON-RPC stand-in: real
+ * payments through the stand-in server, recorded in a Stage 2 folder, then
+ * matched back to the simulated USDC Transfer logs.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { generatePrivateKey } from "viem/accounts";
+import { loadConfig, type Config } from "../src/config.js";
+import { startFacilitatorSimulator, type FacilitatorSimulator } from "../src/facilitator-simulator.js";
+import { reconcileStage2 } from "../src/reconcile.js";
+import { startStandInServer, type StandInServer } from "../src/stand-in-server.js";
+import { createRealX402Client, type PaymentResult } from "../src/x402-client.js";
+
+const ROUTES = [
+  { path: "/pools", name: "Stand-in Pools", category: "pool" as const, priceUsdc: 0.002, profile: "success" as const },
+  { path: "/whales", name: "Stand-in Whales", category: "whale" as const, priceUsdc: 0.003, profile: "success" as const },
+  { path: "/sentiment", name: "Stand-in Sentiment", category: "sentiment" as const, priceUsdc: 0.004, profile: "success" as const },
+];
+
+// A hash the chain never saw, as when a client records the wrong one
+const UNKNOWN_HASH = `0x${"ab".repeat(32)}`;
+
+function comparison(route: (typeof ROUTES)[number], server: StandInServer, result: PaymentResult, transactionHash?: string) {
+  return {
+    endpoint: { name: route.name, url: `${server.url}${route.path}` },
+    noZauth: {
+      spent: route.priceUsdc,
+      burn: 0,
+      outcome: result.outcome,
+      receipt: { ...result.receipt, transactionHash: transactionHash ?? result.receipt!.transactionHash },
+    },
+  };
+}
+
+describe("reconcileStage2 against the facilitator /rpc stand-in", () => {
+  let facilitator: FacilitatorSimulator;
+  let server: StandInServer;
+  let stage2Path: string;
+  let config: Config;
+
+  before(async () => {
+    facilitator = await startFacilitatorSimulator({ confirmationDelayMs: 10, settleDeadlineMs: 500 });
+    server = await startStandInServer({ facilitatorUrl: facilitator.url, routes: ROUTES });
+    config = { ...loadConfig(), evmPrivateKey: generatePrivateKey(), baseRpcUrl: `${facilitator.url}/rpc` };
+    const client = await createRealX402Client(config);
+    const pay = (route: (typeof ROUTES)[number]) => client.fetchEndpoint({
+      url: `${server.url}${route.path}`,
+      name: route.name,
+      category: route.category,
+      priceUsdc: route.priceUsdc,
+    });
+
+    // Paid well before the run: outside the window the recorded payments span
+    await pay(ROUTES[2]);
+    await new Promise(resolve => setTimeout(resolve, 2100));
+
+    const byHash = await pay(ROUTES[0]);
+    const byAmount = await pay(ROUTES[1]);
+    const unrecorded = await pay(ROUTES[2]);
+    assert.ok(byHash.success && byAmount.success && unrecorded.success);
+
+    stage2Path = await fs.mkdtemp(path.join(os.tmpdir(), "reconcile-"));
+    await fs.writeFile(
+      path.join(stage2Path, "endpoint-comparisons.json"),
+      JSON.stringify({
+        comparisons: [
+          comparison(ROUTES[0], server, byHash),
+          comparison(ROUTES[1], server, byAmount, UNKNOWN_HASH),
+        ],
+      })
+    );
+  });
+
+  after(async () => {
+    await server.close();
+    await facilitator.close();
+    await fs.rm(stage2Path, { recursive: true, force: true });
+  });
+
+  it("matches by hash, by amount within the payment window, and flags unrecorded transfers", async () => {
+    const report = await reconcileStage2({ stage2Path, config, network: "base", marginBlocks: 0, marginSeconds: 1 });
+
+    assert.equal(facilitator.settlements.length, 4);
+    assert.equal(report.recordedPayments, 2);
+    assert.deepEqual(
+      report.matched.map(m => [m.payment.endpointName, m.matchedBy, m.amountMismatch]),
+      [["Stand-in Pools", "transaction-hash", false], ["Stand-in Whales", "amount", false]]
+    );
+    assert.equal(report.missing.length, 0);
+
+    // Only the sentiment transfer made during the run; the earlier one is outside the window
+    assert.deepEqual(report.unexpected.map(t => t.transactionHash), [facilitator.settlements[3].transaction]);
+  });
+});
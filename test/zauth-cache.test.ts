@@ -0,0 +1,124 @@
+/**
+ * ZauthCheckCache on a hand-driven clock: fresh and stale hits, misses,
+ * Zauth's own `stale` / `cached` flags, and background revalidation.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Endpoint } from "../src/config.js";
+import type { ZauthCheckResult } from "../src/zauth-client.js";
+import { createZauthCheckCache } from "../src/zauth-cache.js";
+
+const ENDPOINT: Endpoint = { url: "https://mock-api.example.com/v1/pools", name: "Pools", category: "pool", priceUsdc: 0.01 };
+
+function checkResult(uptime: number, flags: { cached?: boolean; stale?: boolean } = {}): ZauthCheckResult {
+  return {
+    checked: true,
+    reliable: uptime >= 70,
+    score: uptime,
+    shouldSkip: uptime < 70,
+    skipReason: null,
+    response: { working: true, uptime, cached: flags.cached ?? false, stale: flags.stale ?? false, responseTime: 100 },
+    latencyMs: 80,
+  };
+}
+
+/**
+ * A cache on a manual clock, and a fetcher that answers from `answers` in
+ * order and counts its calls.
+ */
+function setup(answers: (ZauthCheckResult | Error)[], ttlMs = 1000, staleTtlMs = 0) {
+  let clock = 0;
+  const cache = createZauthCheckCache({ ttlMs, staleTtlMs, now: () => clock });
+  const fetcher = {
+    calls: 0,
+    fetch: async (): Promise<ZauthCheckResult> => {
+      const answer = answers[Math.min(fetcher.calls++, answers.length - 1)];
+      if (answer instanceof Error) throw answer;
+      return answer;
+    },
+  };
+  return { cache, fetcher, advance: (ms: number) => { clock += ms; } };
+}
+
+describe("ZauthCheckCache", () => {
+  it("serves a fresh hit without paying again", async () => {
+    const { cache, fetcher, advance } = setup([checkResult(90)]);
+
+    const first = await cache.get(ENDPOINT, fetcher.fetch);
+    advance(999);
+    const second = await cache.get(ENDPOINT, fetcher.fetch);
+
+    assert.equal(first.lookup, "miss");
+    assert.equal(second.lookup, "hit");
+    assert.equal(second.result.latencyMs, 0);
+    assert.equal(fetcher.calls, 1);
+  });
+
+  it("misses once the TTL has passed", async () => {
+    const { cache, fetcher, advance } = setup([checkResult(90), checkResult(40)]);
+
+    await cache.get(ENDPOINT, fetcher.fetch);
+    advance(1000);
+    const second = await cache.get(ENDPOINT, fetcher.fetch);
+
+    assert.equal(second.lookup, "miss");
+    assert.equal(second.result.score, 40);
+    assert.equal(fetcher.calls, 2);
+    assert.deepEqual(cache.getStats(), { lookups: 2, hits: 0, staleHits: 0, misses: 2, upstreamCached: 0, upstreamStale: 0 });
+  });
+
+  it("serves a stale hit and revalidates in the background", async () => {
+    const { cache, fetcher, advance } = setup([checkResult(90), checkResult(40)], 1000, 500);
+
+    await cache.get(ENDPOINT, fetcher.fetch);
+    advance(1200);
+    const stale = await cache.get(ENDPOINT, fetcher.fetch);
+    const afterRevalidation = await cache.get(ENDPOINT, fetcher.fetch);
+
+    assert.equal(stale.lookup, "stale");
+    assert.equal(stale.result.score, 90);
+    // The revalidation is due at once on this clock, so the next lookup waits for it
+    assert.equal(afterRevalidation.lookup, "hit");
+    assert.equal(afterRevalidation.result.score, 40);
+    assert.equal(fetcher.calls, 2);
+  });
+
+  it("never stores a response Zauth marked stale", async () => {
+    const { cache, fetcher } = setup([checkResult(90, { stale: true }), checkResult(80)]);
+
+    await cache.get(ENDPOINT, fetcher.fetch);
+    const second = await cache.get(ENDPOINT, fetcher.fetch);
+
+    assert.equal(second.lookup, "miss");
+    assert.equal(cache.getStats().upstreamStale, 1);
+  });
+
+  it("keeps a response Zauth served from its own cache for half the TTL", async () => {
+    const { cache, fetcher, advance } = setup([checkResult(90, { cached: true }), checkResult(80)]);
+
+    await cache.get(ENDPOINT, fetcher.fetch);
+    advance(499);
+    const withinHalf = await cache.get(ENDPOINT, fetcher.fetch);
+    advance(1);
+    const pastHalf = await cache.get(ENDPOINT, fetcher.fetch);
+
+    assert.equal(withinHalf.lookup, "hit");
+    assert.equal(pastHalf.lookup, "miss");
+    assert.equal(cache.getStats().upstreamCached, 1);
+  });
+
+  it("keeps the stale entry when a revalidation rejects, without rethrowing", async () => {
+    const { cache, fetcher, advance } = setup([checkResult(90), new Error("unknown endpoint")], 1000, 500);
+
+    await cache.get(ENDPOINT, fetcher.fetch);
+    advance(1200);
+    await cache.get(ENDPOINT, fetcher.fetch);
+    await cache.settle();
+    const afterFailure = await cache.get(ENDPOINT, fetcher.fetch);
+
+    assert.equal(afterFailure.lookup, "stale");
+    assert.equal(afterFailure.result.score, 90);
+    assert.equal(fetcher.calls, 3);
+  });
+});